@@ -5,8 +5,15 @@ import { branch } from "./commands/branch";
 import { multiBranch } from "./commands/multi-branch";
 import { extract } from "./commands/extract";
 import { recover } from "./commands/recover";
+import { explain } from "./commands/explain";
+import { lintCodeownersCommand } from "./commands/lint-codeowners";
+import { coverage } from "./commands/coverage";
+import { codeownersDiff } from "./commands/codeowners-diff";
+import { whoOwns } from "./commands/who-owns";
+import { suggestOwners } from "./commands/suggest-owners";
 import { getVersion } from "./commands/version";
 import { setupSignalHandlers } from "./utils/signals";
+import { addConfigNegations, applyCommandDefaults, configKeyFor } from "./utils/config";
 
 // Setup signal handlers for graceful shutdown
 setupSignalHandlers();
@@ -18,6 +25,22 @@ program
   .description("CLI tool for grouping and managing staged files by CODEOWNERS")
   .version(getVersion());
 
+// Apply option defaults from the config file; flags on the command line override them
+program.hook("preSubcommand", (_program, command) => {
+  try {
+    applyCommandDefaults(command);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+});
+
+// Config keys of the options whose value came from the config file
+const optionsFromConfig = (command: Command): string[] =>
+  Object.keys(command.opts())
+    .filter((key) => command.getOptionValueSource(key) === "config")
+    .map(configKeyFor);
+
 program
   .command("list")
   .description("Lists all git changed files by CODEOWNER")
@@ -36,6 +59,10 @@ program
     "Only include files with multiple owners (co-owned files)"
   )
   .option("--json", "Output results as JSON (suppresses all other output)")
+  .option(
+    "--owners-ref <ref>",
+    "Git ref to read CODEOWNERS from (defaults to the base branch the PR will target)"
+  )
   .action((pattern: string | undefined, options) => {
     if (options.exclusive && options.coOwned) {
       console.error("Error: Cannot use both --exclusive and --co-owned options");
@@ -82,6 +109,14 @@ program
     "--pr-body <body>",
     "Custom PR body text (overrides repo PR template, requires --pr or --draft-pr)"
   )
+  .option(
+    "--pr-title <template>",
+    "PR title template (default: first line of the commit message), see --pr-body-template for placeholders"
+  )
+  .option(
+    "--pr-body-template <template>",
+    "PR body template with {title}, {owner}, {owners}, {team}, {branch}, {base}, {files}, {fileCount}, {diffstat}, {source}, {operationId}, {relatedPrs} and {template}"
+  )
   .option(
     "-e, --exclusive",
     "Only include files where the owner is the sole owner (no co-owners)"
@@ -103,7 +138,23 @@ program
     "--compare-main",
     "Compare source against main branch instead of detecting merge-base (use with --source)"
   )
-  .action((pattern: string | undefined, options) => {
+  .option(
+    "--owners-ref <ref>",
+    "Git ref to read CODEOWNERS from (defaults to the base branch the PR will target)"
+  )
+  .option(
+    "--worktree",
+    "Build the branch in a temporary git worktree, leaving your checkout and index unchanged"
+  )
+  .option(
+    "--strategy <strategy>",
+    "How the branch is built: checkout (default), worktree (temporary git worktree) or plumbing (no checkout, commit hooks do not run)"
+  )
+  .option(
+    "--base <ref>",
+    "Create the branch from this branch instead of HEAD, merge the changes onto it and target the PR at it (defaults to the worktree strategy)"
+  )
+  .action((pattern: string | undefined, options, command: Command) => {
     if (options.exclusive && options.coOwned) {
       console.error("Error: Cannot use both --exclusive and --co-owned options");
       process.exit(1);
@@ -111,6 +162,7 @@ program
     branch({
       ...options,
       pathPattern: pattern,
+      configOptions: optionsFromConfig(command),
     });
   });
 
@@ -166,6 +218,14 @@ program
     "--pr-body <body>",
     "Custom PR body text (overrides repo PR template, requires --pr or --draft-pr)"
   )
+  .option(
+    "--pr-title <template>",
+    "PR title template (default: first line of the commit message), see --pr-body-template for placeholders"
+  )
+  .option(
+    "--pr-body-template <template>",
+    "PR body template with {title}, {owner}, {owners}, {team}, {branch}, {base}, {files}, {fileCount}, {diffstat}, {source}, {operationId}, {relatedPrs} and {template}"
+  )
   .option(
     "-e, --exclusive",
     "Only include files where each owner is the sole owner (no co-owners)"
@@ -187,7 +247,54 @@ program
     "--compare-main",
     "Compare source against main branch instead of detecting merge-base (use with --source)"
   )
-  .action((pattern: string | undefined, options) => {
+  .option(
+    "--owners-ref <ref>",
+    "Git ref to read CODEOWNERS from (defaults to the base branch the PR will target)"
+  )
+  .option(
+    "--group-by <group>",
+    "Create one branch per 'owner' or per GitLab CODEOWNERS 'section'",
+    "owner"
+  )
+  .option(
+    "--co-owned-strategy <strategy>",
+    "Branch for files with several owners: first-listed, most-specific-rule, shared-branch or duplicate-error"
+  )
+  .option(
+    "--branch-template <template>",
+    "Branch name template (default: {base}/{ownerSlug}), with {base}, {owner}, {ownerSlug}, {org}, {team}, {package}, {date}, {user}, {source} and {index}"
+  )
+  .option(
+    "--message-template <template>",
+    "Commit message template (default: {message} - {owner}), with {message}, {owner}, {team}, {package}, {fileCount} and {source}; \\n starts a new line"
+  )
+  .option(
+    "--conventional",
+    "Add a Conventional Commits scope to each commit message and validate it before committing"
+  )
+  .option(
+    "--scope-from <source>",
+    "Derive the Conventional Commits scope from the 'owner' or the workspace 'package'",
+    "owner"
+  )
+  .option(
+    "--worktree",
+    "Build each branch in a temporary git worktree, leaving your checkout and index unchanged"
+  )
+  .option(
+    "--strategy <strategy>",
+    "How branches are built: checkout (default), worktree (temporary git worktree) or plumbing (no checkout, commit hooks do not run)"
+  )
+  .option(
+    "--base <ref>",
+    "Create each branch from this branch instead of HEAD, merge the owner's changes onto it and target the PRs at it (defaults to the worktree strategy)"
+  )
+  .option(
+    "--concurrency <n>",
+    "Number of branches to push (and create PRs for) at once, after every branch is committed",
+    "1"
+  )
+  .action((pattern: string | undefined, options, command: Command) => {
     if (options.exclusive && options.coOwned) {
       console.error("Error: Cannot use both --exclusive and --co-owned options");
       process.exit(1);
@@ -195,6 +302,7 @@ program
     multiBranch({
       ...options,
       pathPattern: pattern,
+      configOptions: optionsFromConfig(command),
     });
   });
 
@@ -227,6 +335,10 @@ program
     "Preview the operation without making any changes"
   )
   .option("--json", "Output results as JSON (suppresses all other output)")
+  .option(
+    "--owners-ref <ref>",
+    "Git ref to read CODEOWNERS from (defaults to the base branch the PR will target)"
+  )
   .action((pattern: string | undefined, options) => {
     if (options.exclusive && options.coOwned) {
       console.error("Error: Cannot use both --exclusive and --co-owned options");
@@ -247,4 +359,96 @@ program
   .option("--auto", "Automatically recover most recent operation without prompts")
   .action(recover);
 
+program
+  .command("explain")
+  .description("Explain which CODEOWNERS rule matched each path and why")
+  .argument("<paths...>", "File paths to explain")
+  .option("--json", "Output results as JSON (suppresses all other output)")
+  .action((paths: string[], options) => {
+    explain({
+      ...options,
+      paths,
+    });
+  });
+
+program
+  .command("lint-codeowners")
+  .description("Validate the CODEOWNERS file")
+  .option("--json", "Output results as JSON (suppresses all other output)")
+  .option("--sarif", "Output results as SARIF 2.1.0 (suppresses all other output)")
+  .option("--strict", "Exit with a non-zero code on warnings as well as errors")
+  .action(lintCodeownersCommand);
+
+program
+  .command("coverage")
+  .description("Report CODEOWNERS coverage of all tracked files")
+  .option("--json", "Output results as JSON (suppresses all other output)")
+  .option("--markdown", "Output results as Markdown")
+  .option(
+    "--min-coverage <percent>",
+    "Exit with a non-zero code when coverage is below this percentage"
+  )
+  .option("--top <n>", "Number of unowned directories to show", "10")
+  .action(coverage);
+
+program
+  .command("who-owns")
+  .description("Show the owners of tracked paths, directories or globs")
+  .argument(
+    "[paths...]",
+    "Paths, directories or globs (micromatch syntax) to look up"
+  )
+  .option("--stdin", "Also read paths from stdin, one per line")
+  .option("--json", "Output results as JSON (suppresses all other output)")
+  .option(
+    "--owners-ref <ref>",
+    "Git ref to read CODEOWNERS from (defaults to the base branch the PR will target)"
+  )
+  .action((paths: string[], options) => {
+    whoOwns({
+      ...options,
+      paths,
+    });
+  });
+
+program
+  .command("suggest-owners")
+  .description("Suggest CODEOWNERS rules for unowned files from git history")
+  .option("--json", "Output results as JSON (suppresses all other output)")
+  .option("--patch", "Output a patch adding the suggested rules to CODEOWNERS")
+  .option("--since <date>", "Only consider commits more recent than this date (e.g. \"1 year ago\")")
+  .option(
+    "--min-confidence <ratio>",
+    "Minimum share of commits (0-1) made by a team to suggest it",
+    "0.5"
+  )
+  .action(suggestOwners);
+
+const codeownersCommand = program
+  .command("codeowners")
+  .description("Inspect CODEOWNERS across revisions");
+
+codeownersCommand
+  .command("diff")
+  .description("Show files whose owners changed between two refs")
+  .argument("<refA>", "Ref to compare from (e.g. main)")
+  .argument("<refB>", "Ref to compare to (e.g. HEAD)")
+  .argument(
+    "[pattern]",
+    "Path pattern to filter files (micromatch syntax, comma-separated)"
+  )
+  .option("-i, --include <patterns>", "Only show changes involving these owner patterns")
+  .option("--json", "Output results as JSON (suppresses all other output)")
+  .action((refA: string, refB: string, pattern: string | undefined, options) => {
+    codeownersDiff({
+      ...options,
+      from: refA,
+      to: refB,
+      pathPattern: pattern,
+    });
+  });
+
+// Flags to turn off booleans set in the config (--no-push, --verify...)
+program.commands.forEach(addConfigNegations);
+
 program.parse(process.argv);
@@ -1,7 +1,6 @@
 import {
   getCurrentBranch,
   createBranch,
-  commitChanges,
   checkout,
   pushBranch,
   deleteBranch,
@@ -15,11 +14,43 @@ import {
   extractFilesFromRef,
   stageFiles,
   hasStagedChanges,
+  getDiffStat,
+  createBranchStrategy,
+  describeBranchStrategy,
+  getBranchStrategyName,
+  setAsideUnstagedChanges,
+  restoreUnstagedChanges,
+  resolveBaseRef,
+  getBaseBranchName,
+  getMergeBase,
+  type BranchStrategy,
+  type UnstagedChanges,
 } from "../utils/git";
 import { log, setSilent, outputJson } from "../utils/logger";
-import { getOwnerFiles } from "../utils/codeowners";
-import { filterByPathPatterns } from "../utils/matcher";
-import { createPRWithTemplate } from "../utils/github";
+import {
+  getOwner,
+  getOwnerFiles,
+  getCodeowners,
+  resolveCodeowners,
+  describeCodeownersSource,
+} from "../utils/codeowners";
+import { filterByPathPatterns, matchOwnerPattern } from "../utils/matcher";
+import { createPRWithTemplate, findPRTemplate } from "../utils/github";
+import { ownerParts } from "../utils/branch-template";
+import {
+  formatFileList,
+  prPlaceholders,
+  renderPRTemplate,
+  type PRTemplateValues,
+} from "../utils/pr-template";
+import { describeOwner, getTeam, resolveReviewers } from "../utils/teams";
+import {
+  describeConfigOptions,
+  describeOwnerOverride,
+  getConfig,
+  getConfigFile,
+  getOwnerOverride,
+} from "../utils/config";
 import Table from "cli-table3";
 import chalk from "chalk";
 import {
@@ -53,8 +84,22 @@ export type BranchOptions = {
   dryRun?: boolean; // Preview the operation without making any changes
   json?: boolean; // Output results as JSON
   prBody?: string; // Custom PR body text (overrides template)
+  prTitle?: string; // PR title template (defaults to the first line of the commit message)
+  prBodyTemplate?: string; // PR body template, with placeholders (see pr-template.ts)
   source?: string; // Source branch or commit to extract changes from
   compareMain?: boolean; // Compare source against main instead of detecting merge-base
+  ownersRef?: string; // Git ref to read CODEOWNERS from (defaults to the PR base branch)
+  files?: string[]; // Explicit files to commit instead of matching by owner (include is used as the label)
+  ownerGroup?: string; // Name of the owner group (from config) this branch is created for
+  stagedFiles?: string[]; // Snapshot of the staged files, to skip re-reading git status
+  configOptions?: string[]; // Options whose value came from the config file
+  worktree?: boolean; // Shorthand for strategy "worktree"
+  strategy?: string; // How the branch is built: "checkout" (default), "worktree" or "plumbing"
+  base?: string; // Branch new branches start from and PRs target, instead of HEAD and the default branch
+  baseRef?: string; // Commit new branches start from, unless checked out (defaults to HEAD)
+  filesRef?: string; // Ref to take the files from instead of the index, unless checked out
+  changesFrom?: string; // Commit the files' changes are merged from onto a --base (defaults to HEAD)
+  deferPublish?: boolean; // Only commit; the caller pushes and creates the PR (see publishBranch)
 };
 
 export type BranchResult = {
@@ -65,9 +110,236 @@ export type BranchResult = {
   pushed: boolean;
   prUrl?: string;
   prNumber?: number;
+  prBody?: string; // Body of the created PR
   error?: string;
 };
 
+/**
+ * Collect the values of the placeholders used in the PR templates.
+ */
+const getPRTemplateValues = async (
+  templates: string[],
+  values: Omit<PRTemplateValues, "diffstat" | "template">
+): Promise<PRTemplateValues> => {
+  const placeholders = templates.flatMap(prPlaceholders);
+  return {
+    ...values,
+    diffstat: placeholders.includes("diffstat")
+      ? `\`\`\`\n${await getDiffStat(values.branch!, values.base)}\n\`\`\``
+      : undefined,
+    template: placeholders.includes("template")
+      ? (await findPRTemplate())?.content
+      : undefined,
+  };
+};
+
+/**
+ * Collect the owners of the given files that match the owner pattern.
+ */
+const getMatchingOwners = (files: string[], include: string): string[] => {
+  const owners = new Set<string>();
+  for (const file of files) {
+    for (const owner of getOwner(file)) {
+      if (matchOwnerPattern(owner, include)) owners.add(owner);
+    }
+  }
+  return Array.from(owners);
+};
+
+export type PublishTarget = {
+  branch: string; // Committed branch to push
+  message: string; // Commit message (its first line is the default PR title)
+  owner: string; // Owner pattern the files were matched with
+  files: string[]; // Committed files
+  source: string; // Branch or ref the changes come from
+};
+
+export type PublishResult = {
+  pushed: boolean;
+  prUrl?: string;
+  prNumber?: number;
+  prBody?: string;
+};
+
+/**
+ * Push a committed branch and create its PR, as requested by the options.
+ * A failed push throws; a failed PR is logged and recorded in the operation
+ * state, since the branch itself was pushed.
+ */
+export const publishBranch = async (
+  target: PublishTarget,
+  options: BranchOptions,
+  { operationState, silent = false }: { operationState: OperationStateData | null; silent?: boolean }
+): Promise<PublishResult> => {
+  const result: PublishResult = { pushed: false };
+  if (!options.push) return result;
+
+  if (operationState) {
+    updateOperationState(operationState.id, { currentState: "pushing" });
+  }
+
+  await pushBranch(target.branch, {
+    remote: options.remote,
+    upstream: options.upstream,
+    force: options.force,
+    noVerify: !options.verify,
+    silent: silent || !!options.json,
+  });
+  result.pushed = true;
+
+  // Update state: pushed
+  if (operationState) {
+    updateBranchState(operationState.id, target.branch, {
+      pushed: true,
+    });
+  }
+
+  // Create PR if requested
+  if (options.pr || options.draftPr) {
+    try {
+      if (operationState) {
+        updateOperationState(operationState.id, {
+          currentState: "creating-pr",
+        });
+      }
+
+      const baseBranch = options.base
+        ? getBaseBranchName(options.base, options.remote)
+        : await getDefaultBranch();
+      const owners = getMatchingOwners(target.files, target.owner);
+      const owner = options.ownerGroup ?? target.owner;
+      const templateValues = await getPRTemplateValues(
+        [options.prTitle ?? "", options.prBodyTemplate ?? ""],
+        {
+          title: target.message.split("\n")[0],
+          owner,
+          owners: owners.join(", "),
+          team: ownerParts(owner).team,
+          branch: target.branch,
+          base:
+            getOwnerOverride([...(options.ownerGroup ? [options.ownerGroup] : []), ...owners])
+              .base ?? baseBranch,
+          files: formatFileList(target.files),
+          fileCount: String(target.files.length),
+          source: target.source,
+          operationId: operationState?.id,
+        }
+      );
+
+      const prResult = await createPRWithTemplate(
+        options.prTitle
+          ? renderPRTemplate(options.prTitle, templateValues).split("\n")[0]
+          : templateValues.title!,
+        target.branch,
+        {
+          draft: options.draftPr,
+          base: baseBranch,
+          prBody: options.prBodyTemplate
+            ? renderPRTemplate(options.prBodyTemplate, templateValues)
+            : options.prBody,
+          owners,
+          ownerGroup: options.ownerGroup,
+        }
+      );
+
+      if (prResult) {
+        result.prUrl = prResult.url;
+        result.prNumber = prResult.number;
+        result.prBody = prResult.body;
+        log.success(
+          `${prResult.draft ? "Draft " : ""}Pull request #${
+            prResult.number
+          } created: ${prResult.url}`
+        );
+
+        // Update state: PR created
+        if (operationState) {
+          updateBranchState(operationState.id, target.branch, {
+            prCreated: true,
+          });
+        }
+      }
+    } catch (prError) {
+      log.error(`Failed to create pull request: ${prError}`);
+      log.info(
+        "Branch was successfully created and pushed, but PR creation failed"
+      );
+
+      // Update state: PR creation failed (but don't fail the whole operation)
+      if (operationState) {
+        updateBranchState(operationState.id, target.branch, {
+          error: `PR creation failed: ${prError}`,
+        });
+      }
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Put back unstaged changes set aside for the checkout strategy, and forget
+ * them in the operation state once they are back.
+ */
+const putBackUnstagedChanges = async (
+  changes: UnstagedChanges,
+  branchName: string,
+  operationState: OperationStateData | null
+): Promise<void> => {
+  const restored = await restoreUnstagedChanges(changes);
+  if (restored && operationState) {
+    updateBranchState(operationState.id, branchName, { unstagedChanges: undefined });
+  }
+};
+
+/**
+ * Undo a branch after a failure: restore its committed files to the working
+ * directory if they were taken out of it, then delete the branch unless it is
+ * kept. Throws, keeping the branch, if the files could not be restored.
+ */
+export const rollbackBranch = async (
+  branchName: string,
+  files: string[],
+  { restoreFiles, keepBranch = false }: { restoreFiles: boolean; keepBranch?: boolean }
+): Promise<void> => {
+  if (restoreFiles) {
+    log.warn(`Commit succeeded but subsequent operation failed.`);
+    log.info(
+      `Restoring files from branch "${branchName}" to prevent data loss...`
+    );
+
+    try {
+      // Restoring overwrites the files: keep unstaged changes made since
+      const unstagedChanges = await setAsideUnstagedChanges(files);
+      await restoreFilesFromBranch(branchName, files);
+      if (unstagedChanges) await restoreUnstagedChanges(unstagedChanges);
+    } catch (restoreError) {
+      log.error(`Failed to restore files: ${restoreError}`);
+      log.warn(`Files are still in branch "${branchName}"`);
+      log.info(`To recover files manually, run:`);
+      log.info(`  git checkout ${branchName} -- <file>`);
+      // Don't delete branch if restore failed
+      log.info(
+        `Branch "${branchName}" was kept to preserve your changes.`
+      );
+      throw restoreError;
+    }
+  }
+
+  if (!keepBranch) {
+    log.info(`Cleaning up: Deleting branch "${branchName}"...`);
+    await deleteBranch(branchName, true);
+  } else {
+    log.info(
+      `Branch "${branchName}" was kept despite the failure.`
+    );
+  }
+
+  if (restoreFiles) {
+    log.info(`Files have been restored to your working directory.`);
+  }
+};
+
 export const branch = async (options: BranchOptions): Promise<BranchResult> => {
   // Variables for cleanup
   let originalBranch = "";
@@ -77,6 +349,7 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
   let filesToCommit: string[] = [];
   let prUrl: string | undefined;
   let prNumber: number | undefined;
+  let prBody: string | undefined;
   let pushed = false;
   let operationState: OperationStateData | null =
     options.operationState || null;
@@ -84,6 +357,12 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
   let autoRecoverySucceeded = false;
   let tempBranch: string | null = null;
   let sourceOriginalBranch: string | null = null;
+  let strategy: BranchStrategy | null = null;
+  let unstagedChanges: UnstagedChanges | null = null;
+  let baseRef = options.baseRef;
+  let filesRef = options.filesRef;
+  let changesFrom = options.changesFrom;
+  let stagedFiles = options.stagedFiles;
 
   // Enable silent mode when JSON output is requested (and not a sub-operation)
   if (options.json && !isSubOperation) {
@@ -104,6 +383,29 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
       throw new Error("Cannot use both --pr and --draft-pr options");
     }
 
+    if (options.prBody && options.prBodyTemplate) {
+      throw new Error("Cannot use both --pr-body and --pr-body-template options");
+    }
+
+    const strategyName = getBranchStrategyName(options.strategy, options.worktree, options.base);
+    if (options.base && !baseRef) {
+      baseRef = await resolveBaseRef(options.base, options.remote);
+    }
+
+    // Reject unknown placeholders before making any changes
+    if (options.prTitle) prPlaceholders(options.prTitle);
+    if (options.prBodyTemplate) prPlaceholders(options.prBodyTemplate);
+
+    // Resolve ownership from the CODEOWNERS at the PR base (or --owners-ref)
+    // Sub-operations reuse the rules already selected by multi-branch
+    if (!isSubOperation) {
+      await resolveCodeowners({
+        ownersRef: options.ownersRef,
+        baseBranch: options.base ? getBaseBranchName(options.base, options.remote) : undefined,
+        remote: options.remote,
+      });
+    }
+
     // When --source is provided, set up a temp branch with extracted files
     // Skip this when called as a sub-operation from multi-branch (it handles its own source flow)
     if (options.source && !isSubOperation) {
@@ -120,14 +422,18 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
 
       // Determine the base to compare against
       const defaultBranch = await getDefaultBranch();
-      const compareTarget = options.compareMain ? defaultBranch : undefined;
+      const compareTarget = options.compareMain ? defaultBranch : baseRef;
 
       if (compareTarget) {
         log.info(`Comparing ${options.source} against ${compareTarget}...`);
       }
 
       // Get changed files from the source ref
-      let sourceFiles = await getChangedFilesBetween(options.source, compareTarget);
+      let sourceFiles = await getChangedFilesBetween(
+        options.source,
+        compareTarget,
+        getConfig().baseCandidates
+      );
 
       if (sourceFiles.length === 0) {
         throw new Error(`No changed files found in ${options.source}`);
@@ -146,20 +452,32 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
 
       log.info(`Found ${sourceFiles.length} changed file${sourceFiles.length !== 1 ? "s" : ""} in source`);
 
-      // Create a temporary branch off the default branch
-      tempBranch = `cg-temp-${Date.now()}`;
-      log.info(`Creating temporary branch "${tempBranch}" from "${defaultBranch}"...`);
-      await checkout(defaultBranch);
-      await createBranch(tempBranch);
+      if (strategyName !== "checkout") {
+        // The branch starts from the default branch (or --base) and takes the
+        // files straight from the source, so no temporary branch is needed
+        if (options.base) {
+          changesFrom = await getMergeBase(options.source, compareTarget!);
+        } else {
+          baseRef = defaultBranch;
+        }
+        filesRef = options.source;
+        stagedFiles = sourceFiles;
+      } else {
+        // Create a temporary branch off the default branch
+        tempBranch = `cg-temp-${Date.now()}`;
+        log.info(`Creating temporary branch "${tempBranch}" from "${defaultBranch}"...`);
+        await checkout(defaultBranch);
+        await createBranch(tempBranch);
 
-      // Extract file contents from the source ref into the working directory
-      log.info("Extracting files from source...");
-      await extractFilesFromRef(options.source, sourceFiles);
+        // Extract file contents from the source ref into the working directory
+        log.info("Extracting files from source...");
+        await extractFilesFromRef(options.source, sourceFiles);
 
-      // Stage the extracted files
-      await stageFiles(sourceFiles);
+        // Stage the extracted files
+        await stageFiles(sourceFiles);
 
-      log.info("Files extracted and staged on temporary branch. Proceeding with branch creation...\n");
+        log.info("Files extracted and staged on temporary branch. Proceeding with branch creation...\n");
+      }
     }
 
     // Warn about unstaged changes that will be ignored (skip when using --source)
@@ -197,13 +515,23 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
     }
 
     // First, identify the files owned by the specified owner
-    filesToCommit = await getOwnerFiles(
-      options.include,
-      options.isDefaultOwner || false,
-      options.pathPattern,
-      options.exclusive || false,
-      options.coOwned || false
-    );
+    if (options.files) {
+      // Explicit file list (e.g. a GitLab section): keep the ones still staged
+      const candidates = filterByPathPatterns(
+        stagedFiles ?? (await getChangedFiles()),
+        options.pathPattern
+      );
+      filesToCommit = candidates.filter((f) => options.files!.includes(f));
+    } else {
+      filesToCommit = await getOwnerFiles(
+        options.include,
+        options.isDefaultOwner || false,
+        options.pathPattern,
+        options.exclusive || false,
+        options.coOwned || false,
+        stagedFiles
+      );
+    }
     if (filesToCommit.length <= 0) {
       log.warn(
         `No files found for ${options.include}. Skipping branch creation.`
@@ -222,11 +550,19 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
 
     // Dry-run: show a complete summary and exit without performing any operations
     if (options.dryRun) {
-      const allStagedFiles = await getChangedFiles();
+      const allStagedFiles = stagedFiles ?? (await getChangedFiles());
       const excludedFiles = allStagedFiles.filter(
         (f) => !filesToCommit.includes(f)
       );
       const branchAlreadyExistsDry = await branchExists(options.branch);
+      const matchingOwners = getMatchingOwners(filesToCommit, options.include);
+      const teams = matchingOwners.map((owner) => getTeam(owner)).filter((team) => team !== null);
+      const reviewers =
+        options.pr || options.draftPr ? resolveReviewers(matchingOwners) : [];
+      const override = getOwnerOverride([
+        ...(options.ownerGroup ? [options.ownerGroup] : []),
+        ...matchingOwners,
+      ]);
 
       // JSON dry-run output
       if (options.json && !isSubOperation) {
@@ -239,6 +575,9 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
           message: options.message,
           files: filesToCommit,
           excludedFiles,
+          teams,
+          reviewers,
+          overrides: override,
           options: {
             push: options.push || false,
             remote: options.remote || "origin",
@@ -250,7 +589,16 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
             exclusive: options.exclusive || false,
             coOwned: options.coOwned || false,
             pathPattern: options.pathPattern || null,
+            ownersRef: options.ownersRef || null,
+            prTitle: options.prTitle || null,
+            prBodyTemplate: options.prBodyTemplate || null,
+            strategy: strategyName,
+            base: options.base || null,
           },
+          codeownersSource: describeCodeownersSource(getCodeowners()),
+          ...(options.configOptions?.length
+            ? { config: { path: getConfigFile().path, options: options.configOptions } }
+            : {}),
         });
         return {
           success: true,
@@ -282,6 +630,9 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
             : "No (will be created)",
         },
         { [chalk.bold("Commit message")]: options.message },
+        {
+          [chalk.bold("CODEOWNERS")]: describeCodeownersSource(getCodeowners()),
+        },
         {
           [chalk.bold("Files matched")]: `${filesToCommit.length} file${filesToCommit.length !== 1 ? "s" : ""}`,
         },
@@ -289,6 +640,9 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
           [chalk.bold("Files excluded")]: `${excludedFiles.length} staged file${excludedFiles.length !== 1 ? "s" : ""} not matching`,
         },
         { [chalk.bold("No-verify")]: !options.verify ? "Yes" : "No" },
+        {
+          [chalk.bold("Strategy")]: describeBranchStrategy(strategyName),
+        },
         {
           [chalk.bold("Push")]: options.push
             ? `Yes → ${options.remote || "origin"}${options.force ? " (force)" : ""}`
@@ -302,6 +656,31 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
               : "No",
         }
       );
+      if (options.configOptions?.length) {
+        detailsTable.push({
+          [chalk.bold("From config")]: describeConfigOptions(options.configOptions),
+        });
+      }
+      if (teams.length > 0) {
+        detailsTable.push({
+          [chalk.bold("Teams")]: teams.map((team) => describeOwner(team.name)).join("\n"),
+        });
+      }
+      if (reviewers.length > 0) {
+        detailsTable.push({
+          [chalk.bold("Reviewers")]: reviewers.join(", "),
+        });
+      }
+      if (describeOwnerOverride(override)) {
+        detailsTable.push({
+          [chalk.bold("Overrides")]: describeOwnerOverride(override),
+        });
+      }
+      if (options.base) {
+        detailsTable.push({
+          [chalk.bold("Base")]: `${baseRef} (changes are merged onto it, PR targets ${getBaseBranchName(options.base, options.remote)})`,
+        });
+      }
       if (options.pathPattern) {
         detailsTable.push({
           [chalk.bold("Path filter")]: options.pathPattern,
@@ -374,22 +753,38 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
         });
       }
 
+      strategy = createBranchStrategy(strategyName);
+
+      // The checkout strategy commits the files' working tree content, so
+      // unstaged changes are set aside until we are back on the original branch
+      if (strategy.usesCheckout) {
+        unstagedChanges = await setAsideUnstagedChanges(filesToCommit);
+        if (unstagedChanges && operationState) {
+          updateBranchState(operationState.id, options.branch, { unstagedChanges });
+        }
+      }
+
       if (branchAlreadyExists && options.append) {
-        // Checkout existing branch
-        log.info(`Checking out existing branch "${options.branch}"...`);
-        await checkout(options.branch);
+        log.info(
+          strategy.usesCheckout
+            ? `Checking out existing branch "${options.branch}"...`
+            : `Adding to existing branch "${options.branch}"...`
+        );
       } else {
-        // Create and switch to new branch
         log.info(`Creating new branch "${options.branch}"...`);
-        await createBranch(options.branch);
-        newBranchCreated = true;
+      }
+      await strategy.open(options.branch, {
+        base: baseRef ?? "HEAD",
+        exists: branchAlreadyExists,
+      });
+      newBranchCreated = !branchAlreadyExists;
 
-        // Update state: branch created
-        if (operationState) {
-          updateBranchState(operationState.id, options.branch, {
-            created: true,
-          });
-        }
+      // Update state: branch created
+      if (operationState) {
+        updateBranchState(operationState.id, options.branch, {
+          created: newBranchCreated,
+          worktree: strategy.worktree,
+        });
       }
 
       // Commit changes
@@ -402,9 +797,12 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
           !options.verify ? "(no-verify)" : ""
         }...`
       );
-      await commitChanges(filesToCommit, {
+      await strategy.commit(filesToCommit, {
         message: options.message ?? "",
         noVerify: !options.verify,
+        ref: filesRef,
+        // On a --base, the files' changes are merged rather than copied over
+        from: options.base ? (changesFrom ?? "HEAD") : undefined,
       });
       commitSucceeded = true;
 
@@ -415,83 +813,30 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
         });
       }
 
-      // Push if requested
-      if (options.push) {
-        if (operationState) {
-          updateOperationState(operationState.id, { currentState: "pushing" });
-        }
-
-        await pushBranch(options.branch, {
-          remote: options.remote,
-          upstream: options.upstream,
-          force: options.force,
-          noVerify: !options.verify,
-          silent: !!options.json,
-        });
-        pushed = true;
-
-        // Update state: pushed
-        if (operationState) {
-          updateBranchState(operationState.id, options.branch, {
-            pushed: true,
-          });
-        }
-      }
-
-      // Create PR if requested
-      if ((options.pr || options.draftPr) && options.push) {
-        try {
-          if (operationState) {
-            updateOperationState(operationState.id, {
-              currentState: "creating-pr",
-            });
-          }
-
-          const defaultBranch = await getDefaultBranch();
-          const prResult = await createPRWithTemplate(
-            options.message,
-            options.branch,
-            {
-              draft: options.draftPr,
-              base: defaultBranch,
-              prBody: options.prBody,
-            }
-          );
-
-          if (prResult) {
-            prUrl = prResult.url;
-            prNumber = prResult.number;
-            log.success(
-              `${options.draftPr ? "Draft " : ""}Pull request #${
-                prResult.number
-              } created: ${prResult.url}`
-            );
-
-            // Update state: PR created
-            if (operationState) {
-              updateBranchState(operationState.id, options.branch, {
-                prCreated: true,
-              });
-            }
-          }
-        } catch (prError) {
-          log.error(`Failed to create pull request: ${prError}`);
-          log.info(
-            "Branch was successfully created and pushed, but PR creation failed"
-          );
-
-          // Update state: PR creation failed (but don't fail the whole operation)
-          if (operationState) {
-            updateBranchState(operationState.id, options.branch, {
-              error: `PR creation failed: ${prError}`,
-            });
-          }
-        }
+      // Push and create the PR, unless multi-branch does it later
+      if (!options.deferPublish) {
+        ({ pushed, prUrl, prNumber, prBody } = await publishBranch(
+          {
+            branch: options.branch,
+            message: options.message,
+            owner: options.include,
+            files: filesToCommit,
+            source: options.source || sourceOriginalBranch || originalBranch,
+          },
+          options,
+          { operationState }
+        ));
       }
 
       // Success path - return to original branch
-      log.info(`Checking out original branch "${originalBranch}"...`);
-      await checkout(originalBranch);
+      if (strategy.usesCheckout) {
+        log.info(`Checking out original branch "${originalBranch}"...`);
+        await checkout(originalBranch);
+      }
+      if (unstagedChanges) {
+        await putBackUnstagedChanges(unstagedChanges, options.branch, operationState);
+        unstagedChanges = null;
+      }
 
       // Mark operation as complete
       if (operationState && !isSubOperation) {
@@ -535,6 +880,7 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
         pushed,
         prUrl,
         prNumber,
+        prBody,
       };
 
       if (options.json && !isSubOperation) {
@@ -559,53 +905,19 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
       // Return to original branch if we changed branches
       if (newBranchCreated) {
         try {
-          log.info(`Returning to original branch "${originalBranch}"...`);
-          await checkout(originalBranch);
-
-          // If commit succeeded, files are in the branch
-          // We should restore them before deleting the branch to prevent data loss
-          if (commitSucceeded) {
-            log.warn(`Commit succeeded but subsequent operation failed.`);
-            log.info(
-              `Restoring files from branch "${options.branch}" to prevent data loss...`
-            );
-
-            try {
-              await restoreFilesFromBranch(options.branch, filesToCommit);
-            } catch (restoreError) {
-              log.error(`Failed to restore files: ${restoreError}`);
-              log.warn(`Files are still in branch "${options.branch}"`);
-              log.info(`To recover files manually, run:`);
-              log.info(`  git checkout ${options.branch} -- <file>`);
-              // Don't delete branch if restore failed
-              log.info(
-                `Branch "${options.branch}" was kept to preserve your changes.`
-              );
-              throw operationError;
-            }
-
-            // After successfully restoring files, decide whether to delete branch
-            if (!options.keepBranchOnFailure) {
-              log.info(`Cleaning up: Deleting branch "${options.branch}"...`);
-              await deleteBranch(options.branch, true);
-              log.info(`Files have been restored to your working directory.`);
-            } else {
-              log.info(
-                `Branch "${options.branch}" was kept despite the failure.`
-              );
-              log.info(`Files have been restored to your working directory.`);
-            }
+          if (strategy?.usesCheckout) {
+            log.info(`Returning to original branch "${originalBranch}"...`);
+            await checkout(originalBranch);
           } else {
-            // Commit didn't succeed, safe to delete branch without restoring
-            if (!options.keepBranchOnFailure) {
-              log.info(`Cleaning up: Deleting branch "${options.branch}"...`);
-              await deleteBranch(options.branch, true);
-            } else {
-              log.info(
-                `Branch "${options.branch}" was kept despite the failure.`
-              );
-            }
+            await strategy?.close();
           }
+
+          // If commit succeeded with the checkout strategy, the files are only
+          // in the branch: they are restored before deleting it
+          await rollbackBranch(options.branch, filesToCommit, {
+            restoreFiles: commitSucceeded && !!strategy?.usesCheckout,
+            keepBranch: options.keepBranchOnFailure,
+          });
         } catch (cleanupError) {
           log.error(`Error during cleanup: ${cleanupError}`);
           // If cleanup failed, don't mark as recovered
@@ -628,6 +940,16 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
         }
       }
 
+      // The state of standalone operations is already deleted at this point
+      if (unstagedChanges) {
+        await putBackUnstagedChanges(
+          unstagedChanges,
+          options.branch,
+          isSubOperation ? operationState : null
+        );
+        unstagedChanges = null;
+      }
+
       throw operationError; // Re-throw the original error
     }
   } catch (err) {
@@ -682,6 +1004,8 @@ export const branch = async (options: BranchOptions): Promise<BranchResult> => {
   } finally {
     // Final cleanup - ensure we're back on the original branch with stashed changes restored
     try {
+      await strategy?.close();
+
       // Clean up temporary branch created for --source flow
       if (tempBranch) {
         // Return to the real original branch (before --source setup)
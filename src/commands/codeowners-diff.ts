@@ -0,0 +1,137 @@
+import chalk from "chalk";
+import {
+  createOwnershipProvider,
+  loadCodeownersFromRef,
+} from "../utils/codeowners";
+import { listFilesAtRef, refExists } from "../utils/git";
+import { log, setSilent, outputJson } from "../utils/logger";
+import {
+  filterByPathPatterns,
+  matchOwnerPattern,
+  matchOwners,
+} from "../utils/matcher";
+import { diffOwnership } from "../utils/ownership-diff";
+import { teamLabel } from "../utils/teams";
+
+export type CodeownersDiffOptions = {
+  from: string; // Ref to compare from
+  to: string; // Ref to compare to
+  pathPattern?: string; // Only compare files matching these path patterns
+  include?: string; // Only show changes involving these owner patterns
+  json?: boolean; // Output results as JSON
+};
+
+const formatOwners = (owners: string[]): string =>
+  owners.length > 0
+    ? owners.map((owner) => log.owner(owner)).join(", ")
+    : chalk.yellow("(unowned)");
+
+export const codeownersDiff = async (
+  options: CodeownersDiffOptions
+): Promise<void> => {
+  if (options.json) {
+    setSilent(true);
+  }
+
+  try {
+    for (const ref of [options.from, options.to]) {
+      if (!(await refExists(ref))) {
+        throw new Error(`Cannot resolve ref "${ref}"`);
+      }
+    }
+
+    // Ownership is evaluated with the rules and OWNERS files of each ref
+    const fromCodeowners = await loadCodeownersFromRef(options.from);
+    const toCodeowners = await loadCodeownersFromRef(options.to);
+    const fromProvider = await createOwnershipProvider(fromCodeowners);
+    const toProvider = await createOwnershipProvider(toCodeowners);
+
+    // Every file tracked at either ref (returns all files if no pattern)
+    const files = filterByPathPatterns(
+      Array.from(
+        new Set([
+          ...(await listFilesAtRef(options.from)),
+          ...(await listFilesAtRef(options.to)),
+        ])
+      ).sort(),
+      options.pathPattern
+    );
+
+    let { changes, owners, filesCompared } = diffOwnership(
+      files,
+      (file) => fromProvider.resolve(file).owners,
+      (file) => toProvider.resolve(file).owners
+    );
+
+    // Filter by owner patterns if specified
+    if (options.include) {
+      const patterns = options.include;
+      changes = changes.filter(
+        ({ before, after }) =>
+          matchOwners(before, patterns) || matchOwners(after, patterns)
+      );
+      owners = owners.filter(({ owner }) => matchOwnerPattern(owner, patterns));
+    }
+
+    if (options.json) {
+      outputJson({
+        command: "codeowners-diff",
+        from: {
+          ref: options.from,
+          codeownersSource: fromProvider.source,
+        },
+        to: {
+          ref: options.to,
+          codeownersSource: toProvider.source,
+        },
+        filesCompared,
+        changes,
+        owners,
+        filters: {
+          include: options.include || null,
+          pathPattern: options.pathPattern || null,
+        },
+      });
+      return;
+    }
+
+    log.info(
+      `Comparing ownership of ${filesCompared} files: ${fromProvider.source} → ${toProvider.source}`
+    );
+
+    if (changes.length === 0) {
+      log.success(`No ownership changes between ${options.from} and ${options.to}`);
+      return;
+    }
+
+    log.header(`Files that changed owners (${changes.length}):`);
+    for (const { file, before, after } of changes) {
+      console.log(`- ${chalk.dim(file)}`);
+      console.log(`    ${formatOwners(before)} → ${formatOwners(after)}`);
+    }
+
+    if (owners.length > 0) {
+      log.header("Changes per owner:");
+      log.formattedTable(
+        owners.map(({ owner, gained, lost }) => ({
+          Owner: teamLabel(owner),
+          Gained: gained.length > 0 ? chalk.green(`+${gained.length}`) : "0",
+          Lost: lost.length > 0 ? chalk.red(`-${lost.length}`) : "0",
+        })),
+        [
+          { name: "Owner", width: 50, formatter: (value: string) => log.owner(value) },
+          { name: "Gained", width: 10 },
+          { name: "Lost", width: 10 },
+        ]
+      );
+    }
+    console.log("");
+  } catch (err) {
+    if (options.json) {
+      outputJson({ command: "codeowners-diff", error: String(err) });
+      process.exit(1);
+    }
+    log.error(`Codeowners diff failed: ${err}`);
+    process.exit(1);
+  }
+};
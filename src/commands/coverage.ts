@@ -0,0 +1,133 @@
+import path from "path";
+import chalk from "chalk";
+import {
+  getCodeowners,
+  getOwnership,
+  loadOwnershipProvider,
+} from "../utils/codeowners";
+import { computeCoverage, coverageToMarkdown } from "../utils/coverage";
+import { getTrackedFiles } from "../utils/git";
+import { log, setSilent, outputJson } from "../utils/logger";
+
+export type CoverageOptions = {
+  json?: boolean; // Output results as JSON
+  markdown?: boolean; // Output results as Markdown
+  minCoverage?: string; // Exit non-zero when coverage is below this percentage
+  top?: string; // Number of unowned directories to show
+};
+
+export const coverage = async (options: CoverageOptions): Promise<void> => {
+  let failed = false;
+
+  if (options.json) {
+    setSilent(true);
+  }
+
+  try {
+    if (options.json && options.markdown) {
+      throw new Error("Cannot use both --json and --markdown options");
+    }
+
+    const minCoverage =
+      options.minCoverage !== undefined ? Number(options.minCoverage) : null;
+    if (minCoverage !== null && (Number.isNaN(minCoverage) || minCoverage < 0 || minCoverage > 100)) {
+      throw new Error(`Invalid --min-coverage value "${options.minCoverage}" (expected 0-100)`);
+    }
+
+    const top = options.top !== undefined ? Number.parseInt(options.top, 10) : 10;
+    if (Number.isNaN(top) || top < 0) {
+      throw new Error(`Invalid --top value "${options.top}"`);
+    }
+
+    const codeowners = getCodeowners();
+    const codeownersFile = codeowners.path
+      ? path.relative(codeowners.root, codeowners.path)
+      : null;
+    const provider = await loadOwnershipProvider(codeowners);
+    const report = computeCoverage(codeowners, await getTrackedFiles(), top, getOwnership);
+    failed = minCoverage !== null && report.coverage < minCoverage;
+
+    if (options.json) {
+      outputJson({
+        command: "coverage",
+        codeownersFile,
+        provider: provider.name,
+        ...report,
+        minCoverage,
+        success: !failed,
+      });
+    } else if (options.markdown) {
+      console.log(coverageToMarkdown(report, codeownersFile));
+      if (failed) {
+        log.error(`Coverage ${report.coverage}% is below the minimum of ${minCoverage}%`);
+      }
+    } else {
+      // Other providers report their ownership source when loaded
+      if (provider.name === "codeowners" && !codeownersFile) {
+        log.warn("No CODEOWNERS file found. All files are unowned.");
+      } else if (provider.name === "codeowners") {
+        log.info(`Using CODEOWNERS file: ${codeownersFile}`);
+      }
+
+      log.header("Ownership coverage");
+      console.log(
+        `  ${chalk.bold(`${report.coverage}%`)} of tracked files have an owner (${report.ownedFiles} of ${report.totalFiles})`
+      );
+
+      if (report.unownedDirectories.length > 0) {
+        log.header("Largest unowned directories:");
+        log.formattedTable(
+          report.unownedDirectories.map((d) => ({
+            Directory: `${d.directory}/`,
+            Files: d.files,
+          })),
+          [
+            { name: "Directory", width: 80, formatter: (value: string) => log.smartFile(value) },
+            { name: "Files", width: 10 },
+          ]
+        );
+      }
+
+      if (report.owners.length > 0) {
+        log.header("Files per owner:");
+        log.formattedTable(
+          report.owners.map((o) => ({ Owner: o.owner, Files: o.files })),
+          [
+            { name: "Owner", width: 50, formatter: (value: string) => log.owner(value) },
+            { name: "Files", width: 10 },
+          ]
+        );
+      }
+
+      if (report.catchAllFiles.length > 0) {
+        log.header(
+          `Owned only by a catch-all rule (${report.catchAllFiles.length}):`
+        );
+        report.catchAllFiles.slice(0, top).forEach((file) => log.file(file));
+        if (report.catchAllFiles.length > top) {
+          console.log(chalk.dim(`  ... and ${report.catchAllFiles.length - top} more (use --json for the full list)`));
+        }
+      }
+      console.log("");
+
+      if (minCoverage !== null) {
+        if (failed) {
+          log.error(`Coverage ${report.coverage}% is below the minimum of ${minCoverage}%`);
+        } else {
+          log.success(`Coverage ${report.coverage}% meets the minimum of ${minCoverage}%`);
+        }
+      }
+    }
+  } catch (err) {
+    if (options.json) {
+      outputJson({ command: "coverage", error: String(err) });
+      process.exit(1);
+    }
+    log.error(`Coverage failed: ${err}`);
+    process.exit(1);
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+};
@@ -0,0 +1,135 @@
+import path from "path";
+import chalk from "chalk";
+import {
+  explainOwner,
+  getCodeowners,
+  loadOwnershipProvider,
+} from "../utils/codeowners";
+import type { CodeownersRule } from "../utils/codeowners-parser";
+import { log, setSilent, outputJson } from "../utils/logger";
+
+export type ExplainOptions = {
+  paths: string[];
+  json?: boolean; // Output results as JSON
+};
+
+const formatRule = (rule: CodeownersRule) => ({
+  ...(rule.source ? { source: rule.source } : {}),
+  line: rule.line,
+  pattern: rule.pattern,
+  owners: rule.owners,
+});
+
+export const explain = async (options: ExplainOptions): Promise<void> => {
+  if (options.json) {
+    setSilent(true);
+  }
+
+  try {
+    if (!options.paths || options.paths.length === 0) {
+      throw new Error("At least one path is required");
+    }
+
+    const codeowners = getCodeowners();
+    const codeownersFile = codeowners.path
+      ? path.relative(codeowners.root, codeowners.path)
+      : null;
+    const provider = await loadOwnershipProvider(codeowners);
+
+    // Paths are given relative to the cwd, rules are relative to the project root
+    const explanations = options.paths.map((p) =>
+      explainOwner(path.relative(codeowners.root, path.resolve(p)))
+    );
+
+    if (options.json) {
+      outputJson({
+        command: "explain",
+        codeownersFile,
+        provider: provider.name,
+        dialect: codeowners.dialect,
+        results: explanations.map((e) => ({
+          file: e.file,
+          owners: e.owners,
+          rule: e.rule ? formatRule(e.rule) : null,
+          overridden: e.overridden.map(formatRule),
+          ...(codeowners.dialect === "gitlab" || provider.name === "owners"
+            ? {
+                sections: e.sections.map((s) => ({
+                  name: s.section,
+                  optional: s.optional,
+                  approvals: s.approvals,
+                  owners: s.owners,
+                  rule: formatRule(s.rule),
+                  overridden: s.overridden.map(formatRule),
+                })),
+              }
+            : {}),
+        })),
+      });
+      return;
+    }
+
+    if (!codeownersFile && provider.name === "codeowners") {
+      log.warn("No CODEOWNERS file found. All files are unowned.");
+      return;
+    }
+
+    if (provider.name === "codeowners") {
+      log.info(`Using CODEOWNERS file: ${codeownersFile}`);
+    }
+
+    for (const e of explanations) {
+      log.header(e.file);
+
+      if (e.sections.length === 0) {
+        console.log(`  ${chalk.yellow("No matching rule (unowned)")}`);
+        continue;
+      }
+
+      console.log(
+        `  Owners: ${
+          e.owners.length > 0
+            ? e.owners.map((owner) => log.owner(owner)).join(", ")
+            : chalk.yellow("none (rule explicitly removes ownership)")
+        }`
+      );
+
+      for (const match of e.sections) {
+        let indent = "  ";
+        if (codeowners.dialect === "gitlab") {
+          const details = [
+            match.optional ? "optional" : null,
+            match.approvals !== 1 ? `${match.approvals} approvals` : null,
+          ].filter(Boolean);
+          console.log(
+            `  Section: ${chalk.bold(match.section ?? "(default)")}${
+              details.length > 0 ? chalk.dim(` (${details.join(", ")})`) : ""
+            }`
+          );
+          indent = "    ";
+        }
+
+        console.log(
+          `${indent}Matched rule: ${chalk.bold(`${match.rule.source ?? codeownersFile}:${match.rule.line}`)}  ${match.rule.raw.trim()}`
+        );
+
+        if (match.overridden.length > 0) {
+          console.log(`${indent}Overridden rules (last match wins):`);
+          for (const rule of match.overridden) {
+            console.log(
+              `${indent}  ${chalk.dim(`${codeownersFile}:${rule.line}`)}  ${chalk.dim(rule.raw.trim())}`
+            );
+          }
+        }
+      }
+    }
+    console.log("");
+  } catch (err) {
+    if (options.json) {
+      outputJson({ command: "explain", error: String(err) });
+      process.exit(1);
+    }
+    log.error(`Explain failed: ${err}`);
+    process.exit(1);
+  }
+};
@@ -2,17 +2,25 @@ import {
   hasUnstagedChanges,
   getUnstagedFiles,
   getBaseBranch,
-  getChangedFilesBetween,
+  getFileChangesBetween,
+  changedPaths,
   extractFilesFromRef,
   getDefaultBranch,
+  type FileChange,
 } from "../utils/git";
 import { log, setSilent, outputJson } from "../utils/logger";
-import { getOwner } from "../utils/codeowners";
+import {
+  getOwner,
+  getCodeowners,
+  resolveCodeowners,
+  describeCodeownersSource,
+} from "../utils/codeowners";
 import {
   matchOwnerPattern,
   matchOwnersExclusive,
   filterByPathPatterns,
 } from "../utils/matcher";
+import { getConfig } from "../utils/config";
 import Table from "cli-table3";
 import chalk from "chalk";
 
@@ -25,6 +33,27 @@ export type ExtractOptions = {
   coOwned?: boolean; // Only include files with multiple owners
   dryRun?: boolean; // Preview the operation without making any changes
   json?: boolean; // Output results as JSON
+  ownersRef?: string; // Git ref to read CODEOWNERS from (defaults to the base branch)
+};
+
+/**
+ * Describe how a path changed in the source, for listing it
+ */
+const describeChange = (file: string, changes: FileChange[]): string | undefined => {
+  const change = changes.find((c) => c.path === file || c.oldPath === file);
+  if (!change) return undefined;
+  if (change.status === "renamed") {
+    return change.path === file ? `renamed from ${change.oldPath}` : `renamed to ${change.path}`;
+  }
+  if (change.status === "deleted") return "deleted";
+  if (change.status === "added" || change.status === "copied") return "new";
+  if (change.oldMode !== change.newMode) return `mode ${change.oldMode} → ${change.newMode}`;
+  return undefined;
+};
+
+const formatFile = (file: string, changes: FileChange[]): string => {
+  const description = describeChange(file, changes);
+  return description ? `${file} (${description})` : file;
 };
 
 export const extract = async (options: ExtractOptions): Promise<void> => {
@@ -63,14 +92,21 @@ export const extract = async (options: ExtractOptions): Promise<void> => {
       compareTarget = await getDefaultBranch();
       log.info(`Comparing ${options.source} against ${compareTarget}...`);
     } else {
-      const baseBranch = await getBaseBranch(options.source);
+      const baseBranch = await getBaseBranch(options.source, getConfig().baseCandidates);
       compareTarget = baseBranch;
       log.info(`Detected base branch: ${baseBranch}`);
       log.info(`Extracting changes from ${options.source}...`);
     }
 
+    // Resolve ownership from the CODEOWNERS at the base branch (or --owners-ref)
+    await resolveCodeowners({
+      ownersRef: options.ownersRef,
+      baseBranch: compareTarget,
+    });
+
     // Get changed files from source
-    let changedFiles = await getChangedFilesBetween(options.source, compareTarget);
+    const changes = await getFileChangesBetween(options.source, compareTarget);
+    let changedFiles = changedPaths(changes);
 
     if (changedFiles.length === 0) {
       log.warn(`No changed files found in ${options.source}`);
@@ -146,6 +182,11 @@ export const extract = async (options: ExtractOptions): Promise<void> => {
       log.info(`Filtered to ${filesToExtract.length} file${filesToExtract.length !== 1 ? 's' : ''}`);
     }
 
+    // Changes behind the files to extract (either side of a rename)
+    const extractedChanges = changes.filter((c) =>
+      [c.path, c.oldPath].some((file) => file && filesToExtract.includes(file))
+    );
+
     // Dry-run: show a complete summary and exit without extracting
     if (options.dryRun) {
       const excludedFiles = changedFiles.filter(
@@ -160,6 +201,7 @@ export const extract = async (options: ExtractOptions): Promise<void> => {
           source: options.source,
           compareTarget: compareTarget || null,
           files: filesToExtract,
+          changes: extractedChanges,
           excludedFiles,
           totalChanged: changedFiles.length,
           options: {
@@ -168,7 +210,9 @@ export const extract = async (options: ExtractOptions): Promise<void> => {
             exclusive: options.exclusive || false,
             coOwned: options.coOwned || false,
             compareMain: options.compareMain || false,
+            ownersRef: options.ownersRef || null,
           },
+          codeownersSource: describeCodeownersSource(getCodeowners()),
         });
         return;
       }
@@ -186,6 +230,9 @@ export const extract = async (options: ExtractOptions): Promise<void> => {
         {
           [chalk.bold("Compare target")]: compareTarget || "auto-detected",
         },
+        {
+          [chalk.bold("CODEOWNERS")]: describeCodeownersSource(getCodeowners()),
+        },
         {
           [chalk.bold("Files in source")]: `${changedFiles.length} changed file${changedFiles.length !== 1 ? "s" : ""}`,
         },
@@ -221,7 +268,7 @@ export const extract = async (options: ExtractOptions): Promise<void> => {
         )
       );
       filesToExtract.forEach((file) =>
-        console.log(`  ${chalk.green("+")} ${file}`)
+        console.log(`  ${chalk.green("+")} ${formatFile(file, changes)}`)
       );
 
       // Excluded files
@@ -252,6 +299,7 @@ export const extract = async (options: ExtractOptions): Promise<void> => {
         source: options.source,
         compareTarget: compareTarget || null,
         files: filesToExtract,
+        changes: extractedChanges,
         totalChanged: changedFiles.length,
       });
       return;
@@ -261,7 +309,7 @@ export const extract = async (options: ExtractOptions): Promise<void> => {
 
     // Show extracted files
     log.info("\nExtracted files:");
-    filesToExtract.forEach((file) => log.info(`  - ${file}`));
+    filesToExtract.forEach((file) => log.info(`  - ${formatFile(file, changes)}`));
 
     log.info("\nNext steps:");
     log.info("  - Review the extracted files in your working directory");
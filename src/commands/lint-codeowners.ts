@@ -0,0 +1,92 @@
+import path from "path";
+import chalk from "chalk";
+import { getCodeowners } from "../utils/codeowners";
+import { lintCodeowners, toSarif } from "../utils/codeowners-lint";
+import { getTrackedFiles } from "../utils/git";
+import { log, setSilent, outputJson } from "../utils/logger";
+import { getVersion } from "./version";
+
+export type LintCodeownersOptions = {
+  json?: boolean; // Output results as JSON
+  sarif?: boolean; // Output results as SARIF 2.1.0
+  strict?: boolean; // Exit non-zero on warnings as well as errors
+};
+
+export const lintCodeownersCommand = async (
+  options: LintCodeownersOptions
+): Promise<void> => {
+  const machineOutput = options.json || options.sarif;
+  let failed = false;
+
+  if (machineOutput) {
+    setSilent(true);
+  }
+
+  try {
+    if (options.json && options.sarif) {
+      throw new Error("Cannot use both --json and --sarif options");
+    }
+
+    const codeowners = getCodeowners();
+    if (!codeowners.path) {
+      throw new Error("No CODEOWNERS file found");
+    }
+
+    const codeownersFile = path.relative(codeowners.root, codeowners.path);
+    const trackedFiles = await getTrackedFiles();
+    const issues = lintCodeowners(codeowners, trackedFiles);
+
+    const errorCount = issues.filter((i) => i.severity === "error").length;
+    const warningCount = issues.filter((i) => i.severity === "warning").length;
+    failed = errorCount > 0 || (!!options.strict && warningCount > 0);
+
+    if (options.sarif) {
+      outputJson(toSarif(issues, codeownersFile, getVersion()));
+    } else if (options.json) {
+      outputJson({
+        command: "lint-codeowners",
+        codeownersFile,
+        success: !failed,
+        errorCount,
+        warningCount,
+        issues,
+      });
+    } else {
+      log.info(
+        `Linting ${codeownersFile} (${codeowners.rules.length} rules, ${trackedFiles.length} tracked files)`
+      );
+
+      if (issues.length === 0) {
+        log.success("No problems found");
+      } else {
+        console.log("");
+        for (const i of issues) {
+          const severity =
+            i.severity === "error" ? chalk.red("error  ") : chalk.yellow("warning");
+          console.log(
+            `  ${chalk.dim(`${codeownersFile}:${i.line}`)}  ${severity}  ${i.message}  ${chalk.dim(i.ruleId)}`
+          );
+        }
+        console.log("");
+
+        const summary = `${errorCount} error${errorCount !== 1 ? "s" : ""}, ${warningCount} warning${warningCount !== 1 ? "s" : ""}`;
+        if (failed) {
+          log.error(summary);
+        } else {
+          log.warn(summary);
+        }
+      }
+    }
+  } catch (err) {
+    if (machineOutput) {
+      outputJson({ command: "lint-codeowners", error: String(err) });
+      process.exit(1);
+    }
+    log.error(`Lint failed: ${err}`);
+    process.exit(1);
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+};
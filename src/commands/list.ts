@@ -1,6 +1,13 @@
-import { getOwner } from "../utils/codeowners";
+import chalk from "chalk";
+import {
+  getOwner,
+  getOwnership,
+  getCodeowners,
+  resolveCodeowners,
+} from "../utils/codeowners";
 import { getChangedFiles, hasUnstagedChanges, getUnstagedFiles } from "../utils/git";
 import { log, setSilent, outputJson } from "../utils/logger";
+import { getTeam, teamLabel } from "../utils/teams";
 import {
   matchOwners,
   matchOwnersExclusive,
@@ -14,6 +21,7 @@ export type ListOptions = {
   exclusive?: boolean;
   coOwned?: boolean;
   json?: boolean;
+  ownersRef?: string;
 };
 
 export const listCodeowners = async (options: ListOptions) => {
@@ -22,6 +30,9 @@ export const listCodeowners = async (options: ListOptions) => {
       setSilent(true);
     }
 
+    // Resolve ownership from the CODEOWNERS at the PR base (or --owners-ref)
+    await resolveCodeowners({ ownersRef: options.ownersRef });
+
     // Warn about unstaged changes that will be ignored
     if (await hasUnstagedChanges()) {
       const unstagedFiles = await getUnstagedFiles();
@@ -88,17 +99,42 @@ export const listCodeowners = async (options: ListOptions) => {
         }
       }
 
+      // GitLab files also report the sections that own each file
+      const withSections = getCodeowners().dialect === "gitlab";
+
+      // Team directory entries for the owners in the output
+      const teams = Array.from(new Set(filteredFiles.flatMap(({ owners }) => owners)))
+        .map((owner) => getTeam(owner))
+        .filter((team) => team !== null);
+
       outputJson({
         command: "list",
         ...(grouped
           ? { grouped }
-          : { files: filteredFiles.map(({ file, owners }) => ({ file, owners })) }),
+          : {
+              files: filteredFiles.map(({ file, owners }) => ({
+                file,
+                owners,
+                ...(withSections
+                  ? {
+                      sections: getOwnership(file).sections.map((s) => ({
+                        name: s.section,
+                        owners: s.owners,
+                        optional: s.optional,
+                        approvals: s.approvals,
+                      })),
+                    }
+                  : {}),
+              })),
+            }),
         filters: {
           include: options.include || null,
           pathPattern: options.pathPattern || null,
           exclusive: options.exclusive || false,
           coOwned: options.coOwned || false,
+          ownersRef: options.ownersRef || null,
         },
+        ...(teams.length > 0 ? { teams } : {}),
       });
       return;
     }
@@ -137,7 +173,23 @@ export const listCodeowners = async (options: ListOptions) => {
           File: file,
         }));
 
-        log.header(`Files owned by ${log.owner(owner)}:`);
+        const team = getTeam(owner);
+        log.header(`Files owned by ${log.owner(teamLabel(owner))}:`);
+        if (team && team.members.length > 0) {
+          console.log(chalk.dim(`Members: ${team.members.join(", ")}`));
+        }
+        if (team?.slack || team?.manager) {
+          console.log(
+            chalk.dim(
+              [
+                team.slack ? `Slack: ${team.slack}` : null,
+                team.manager ? `Manager: ${team.manager}` : null,
+              ]
+                .filter(Boolean)
+                .join("  ")
+            )
+          );
+        }
         log.formattedTable(tableData, [
           {
             name: "No",
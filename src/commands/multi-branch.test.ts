@@ -219,6 +219,272 @@ describe("multi-branch command", () => {
     expect(branchCalls[1].branch).toBe("feature/user@example-com");
   });
 
+  test("should name branches from --branch-template", async () => {
+    const branchCalls: any[] = [];
+
+    mock.module("../utils/git", () => ({
+      getChangedFiles: mock(() => Promise.resolve(["file1.js"])),
+      hasUnstagedChanges: mock(() => Promise.resolve(false)),
+      getUnstagedFiles: mock(() => Promise.resolve([])),
+      getGitUser: mock(() => Promise.resolve("jane")),
+    }));
+
+    mock.module("../utils/codeowners", () => ({
+      getOwner: mock(() => ["@org/team-name", "@other/api"]),
+    }));
+
+    mock.module("./branch", () => ({
+      branch: mock((options: any) => {
+        branchCalls.push(options);
+        return Promise.resolve({
+          success: true,
+          branchName: options.branch,
+          owner: options.include,
+          files: [],
+          pushed: false,
+        });
+      }),
+    }));
+
+    const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+    await mockedMultiBranch({
+      branch: "ABC-123",
+      message: "test",
+      branchTemplate: "{user}/{base}-{team}-{index}",
+    });
+
+    expect(branchCalls.map((c) => c.branch)).toEqual([
+      "jane/ABC-123-team-name-1",
+      "jane/ABC-123-api-2",
+    ]);
+  });
+
+  test("should write Conventional Commits messages from --message-template", async () => {
+    const branchCalls: any[] = [];
+
+    mock.module("../utils/git", () => ({
+      getChangedFiles: mock(() => Promise.resolve(["file1.js", "file2.js"])),
+      hasUnstagedChanges: mock(() => Promise.resolve(false)),
+      getUnstagedFiles: mock(() => Promise.resolve([])),
+    }));
+
+    mock.module("../utils/codeowners", () => ({
+      getOwner: mock(() => ["@org/Web"]),
+      getOwnerFiles: mock(() => Promise.resolve(["file1.js", "file2.js"])),
+    }));
+
+    mock.module("./branch", () => ({
+      branch: mock((options: any) => {
+        branchCalls.push(options);
+        return Promise.resolve({
+          success: true,
+          branchName: options.branch,
+          owner: options.include,
+          files: [],
+          pushed: false,
+        });
+      }),
+    }));
+
+    const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+    await mockedMultiBranch({
+      branch: "feature",
+      message: "feat: add login",
+      messageTemplate: "{message}\\n\\nOwned by {owner} ({fileCount} files)",
+      conventional: true,
+    });
+
+    expect(branchCalls[0].message).toBe("feat(web): add login\n\nOwned by @org/Web (2 files)");
+  });
+
+  test("should reject invalid Conventional Commits messages before creating branches", async () => {
+    const branchCalls: any[] = [];
+
+    mock.module("../utils/git", () => ({
+      getChangedFiles: mock(() => Promise.resolve(["file1.js"])),
+      hasUnstagedChanges: mock(() => Promise.resolve(false)),
+      getUnstagedFiles: mock(() => Promise.resolve([])),
+    }));
+
+    mock.module("../utils/codeowners", () => ({
+      getOwner: mock(() => ["@org/web"]),
+    }));
+
+    mock.module("./branch", () => ({
+      branch: mock((options: any) => {
+        branchCalls.push(options);
+        return Promise.resolve({ success: true, branchName: options.branch, files: [] });
+      }),
+    }));
+
+    const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+    try {
+      await mockedMultiBranch({ branch: "feature", message: "Add login", conventional: true });
+    } catch (e: any) {
+      expect(e.message).toContain("process.exit(1)");
+    }
+
+    expect(exitCode).toBe(1);
+    expect(branchCalls).toEqual([]);
+    expect(
+      consoleErrors.some((msg) => msg.includes('@org/web: header "Add login" must be'))
+    ).toBe(true);
+    expect(consoleOutput.some((msg) => msg.includes("Operation ID"))).toBe(false);
+  });
+
+  test("should link the PRs of a run to each other once they all exist", async () => {
+    const updates: [number, string][] = [];
+
+    mock.module("../utils/git", () => ({
+      getChangedFiles: mock(() => Promise.resolve(["file1.js"])),
+      hasUnstagedChanges: mock(() => Promise.resolve(false)),
+      getUnstagedFiles: mock(() => Promise.resolve([])),
+    }));
+
+    mock.module("../utils/codeowners", () => ({
+      getOwner: mock(() => ["@team-a", "@team-b"]),
+    }));
+
+    mock.module("../utils/github", () => ({
+      updatePullRequestBody: mock((prNumber: number, body: string) => {
+        updates.push([prNumber, body]);
+        return Promise.resolve();
+      }),
+    }));
+
+    const { renderPRTemplate } = await import("../utils/pr-template");
+    let prNumber = 0;
+    mock.module("./branch", () => ({
+      branch: mock((options: any) => {
+        prNumber++;
+        return Promise.resolve({
+          success: true,
+          branchName: options.branch,
+          owner: options.include,
+          files: ["file1.js"],
+          pushed: true,
+          prUrl: `https://github.com/o/r/pull/${prNumber}`,
+          prNumber,
+          prBody: renderPRTemplate(options.prBodyTemplate, {}),
+        });
+      }),
+    }));
+
+    const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+    await mockedMultiBranch({
+      branch: "feature",
+      message: "test",
+      push: true,
+      pr: true,
+      prBodyTemplate: "Part of a split:\\n{relatedPrs}",
+    });
+
+    expect(updates.map(([n]) => n)).toEqual([1, 2]);
+    expect(updates[0][1]).toContain("https://github.com/o/r/pull/2 — @team-b (`feature/team-b`)");
+    expect(updates[1][1]).toContain("https://github.com/o/r/pull/1 — @team-a (`feature/team-a`)");
+  });
+
+  test("should push committed branches concurrently with --concurrency", async () => {
+    const deferred: boolean[] = [];
+    const rolledBack: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    mock.module("../utils/git", () => ({
+      getChangedFiles: mock(() => Promise.resolve(["file1.js"])),
+      hasUnstagedChanges: mock(() => Promise.resolve(false)),
+      getUnstagedFiles: mock(() => Promise.resolve([])),
+    }));
+
+    mock.module("../utils/codeowners", () => ({
+      getOwner: mock(() => ["@team-a", "@team-b", "@team-c"]),
+    }));
+
+    mock.module("./branch", () => ({
+      branch: mock((options: any) => {
+        deferred.push(options.deferPublish);
+        return Promise.resolve({
+          success: true,
+          branchName: options.branch,
+          owner: options.include,
+          files: ["file1.js"],
+          pushed: false,
+        });
+      }),
+      publishBranch: mock(async (target: any) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        if (target.branch === "feature/team-b") throw new Error("Push failed");
+        return { pushed: true };
+      }),
+      rollbackBranch: mock((branchName: string) => {
+        rolledBack.push(branchName);
+        return Promise.resolve();
+      }),
+    }));
+
+    const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+    await mockedMultiBranch({
+      branch: "feature",
+      message: "test",
+      push: true,
+      concurrency: "2",
+    });
+
+    expect(deferred).toEqual([true, true, true]);
+    expect(maxRunning).toBe(2);
+    expect(rolledBack).toEqual(["feature/team-b"]);
+    expect(consoleErrors.some((msg) => msg.includes('Failed to push "feature/team-b"'))).toBe(true);
+  });
+
+  test("should reject colliding or invalid branch names before creating branches", async () => {
+    const branchCalls: any[] = [];
+
+    mock.module("../utils/git", () => ({
+      getChangedFiles: mock(() => Promise.resolve(["file1.js"])),
+      hasUnstagedChanges: mock(() => Promise.resolve(false)),
+      getUnstagedFiles: mock(() => Promise.resolve([])),
+    }));
+
+    mock.module("../utils/codeowners", () => ({
+      getOwner: mock(() => ["@org/web", "@other/web"]),
+    }));
+
+    mock.module("./branch", () => ({
+      branch: mock((options: any) => {
+        branchCalls.push(options);
+        return Promise.resolve({ success: true, branchName: options.branch, files: [] });
+      }),
+    }));
+
+    const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+    for (const branchTemplate of ["{base}/{team}", "{base}..{ownerSlug}"]) {
+      try {
+        await mockedMultiBranch({ branch: "feature", message: "test", branchTemplate });
+      } catch (e: any) {
+        expect(e.message).toContain("process.exit(1)");
+      }
+      expect(exitCode).toBe(1);
+    }
+
+    expect(branchCalls).toEqual([]);
+    expect(
+      consoleErrors.some((msg) => msg.includes("feature/web (@org/web, @other/web)"))
+    ).toBe(true);
+    expect(
+      consoleErrors.some((msg) => msg.includes("invalid branch names") && msg.includes("feature..org-web"))
+    ).toBe(true);
+    expect(consoleOutput.some((msg) => msg.includes("Operation ID"))).toBe(false);
+  });
+
   test("should handle branch creation failures", async () => {
     const successfulOwners: string[] = [];
 
@@ -530,4 +796,258 @@ describe("multi-branch command", () => {
       )
     ).toBe(true);
   });
+
+  test("should create one branch per GitLab section with --group-by section", async () => {
+    const branchCalls: any[] = [];
+
+    mock.module("../utils/git", () => ({
+      getChangedFiles: mock(() =>
+        Promise.resolve(["docs/guide.md", "docs/style.md", "src/api.ts", "README.md"])
+      ),
+      hasUnstagedChanges: mock(() => Promise.resolve(false)),
+      getUnstagedFiles: mock(() => Promise.resolve([])),
+    }));
+
+    const section = (name: string, owners: string[]) => ({
+      section: name,
+      optional: false,
+      approvals: 1,
+      owners,
+    });
+    mock.module("../utils/codeowners", () => ({
+      getCodeowners: mock(() => ({ dialect: "gitlab", sections: [{ name: "Docs" }] })),
+      getOwnership: mock((file: string) => {
+        if (file === "docs/guide.md") {
+          return { sections: [section("Docs", ["@docs"]), section("Tech Writers", ["@writers"])] };
+        }
+        if (file === "docs/style.md") return { sections: [section("Tech Writers", ["@writers"])] };
+        if (file === "src/api.ts") return { sections: [section("Backend", ["@backend"])] };
+        return { sections: [] };
+      }),
+    }));
+
+    // Like the real branch(): only files that are still staged are committed
+    mock.module("./branch", () => ({
+      branch: mock((options: any) => {
+        branchCalls.push(options);
+        const files = options.files.filter((f: string) => options.stagedFiles.includes(f));
+        return Promise.resolve({
+          success: files.length > 0,
+          branchName: options.branch,
+          owner: options.include,
+          files,
+          pushed: false,
+          error: files.length > 0 ? undefined : "No files found for this owner",
+        });
+      }),
+    }));
+
+    const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+    await mockedMultiBranch({
+      branch: "feature",
+      message: "test",
+      groupBy: "section",
+    });
+
+    // docs/guide.md is owned by two sections, and committed once
+    expect(branchCalls.map((c) => [c.include, c.branch, c.message, c.files])).toEqual([
+      ["Docs", "feature/Docs", "test - Docs", ["docs/guide.md"]],
+      ["Tech Writers", "feature/Tech-Writers", "test - Tech Writers", ["docs/style.md"]],
+      ["Backend", "feature/Backend", "test - Backend", ["src/api.ts"]],
+    ]);
+    expect(consoleOutput.some((msg) => msg.includes("Successfully created 3 of 3 branches"))).toBe(true);
+  });
+
+  test("should create one branch per configured owner group", async () => {
+    const branchCalls: any[] = [];
+
+    mock.module("../utils/git", () => ({
+      getChangedFiles: mock(() => Promise.resolve(["api.ts", "web.ts", "core.ts"])),
+      hasUnstagedChanges: mock(() => Promise.resolve(false)),
+      getUnstagedFiles: mock(() => Promise.resolve([])),
+    }));
+
+    mock.module("../utils/codeowners", () => ({
+      getOwner: mock((file: string) => {
+        if (file === "api.ts") return ["@org/payments-api"];
+        if (file === "web.ts") return ["@org/payments-web"];
+        return ["@org/core"];
+      }),
+    }));
+
+    mock.module("../utils/config", () => ({
+      getConfig: mock(() => ({ ownerGroups: { payments: ["@org/payments-*"] } })),
+    }));
+
+    mock.module("./branch", () => ({
+      branch: mock((options: any) => {
+        branchCalls.push(options);
+        return Promise.resolve({
+          success: true,
+          branchName: options.branch,
+          owner: options.include,
+          files: [],
+          pushed: false,
+        });
+      }),
+    }));
+
+    const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+    await mockedMultiBranch({ branch: "feature", message: "test" });
+
+    expect(branchCalls.map((c) => [c.include, c.branch, c.message, c.ownerGroup])).toEqual([
+      ["@org/payments-api,@org/payments-web", "feature/payments", "test - payments", "payments"],
+      ["@org/core", "feature/org-core", "test - @org/core", undefined],
+    ]);
+    expect(consoleOutput.some((msg) => msg.includes("Successfully created 2 of 2 branches"))).toBe(true);
+  });
+
+  describe("--co-owned-strategy", () => {
+    const rule = (line: number, pattern: string, owners: string[]) => ({
+      line,
+      pattern,
+      owners,
+      raw: `${pattern} ${owners.join(" ")}`,
+    });
+    // shared.ts: "* @team-b" then "/shared.ts @team-b @team-a"
+    const ownership: Record<string, any> = {
+      "a.ts": { owners: ["@team-a"], sections: [] },
+      "shared.ts": {
+        owners: ["@team-b", "@team-a"],
+        sections: [
+          {
+            section: null,
+            rule: rule(2, "/shared.ts", ["@team-b", "@team-a"]),
+            overridden: [rule(1, "*", ["@team-b"])],
+          },
+        ],
+      },
+    };
+
+    let branchCalls: any[];
+
+    const setup = () => {
+      branchCalls = [];
+
+      mock.module("../utils/git", () => ({
+        getChangedFiles: mock(() => Promise.resolve(["a.ts", "shared.ts"])),
+        hasUnstagedChanges: mock(() => Promise.resolve(false)),
+        getUnstagedFiles: mock(() => Promise.resolve([])),
+      }));
+
+      mock.module("../utils/codeowners", () => ({
+        getOwner: mock((file: string) => ownership[file].owners),
+        getOwnership: mock((file: string) => ownership[file]),
+        getCodeowners: mock(() => ({ path: null, root: process.cwd(), sections: [] })),
+        describeCodeownersSource: mock(() => "CODEOWNERS"),
+        getOwnerFiles: mock((owner: string) =>
+          Promise.resolve(owner === "@team-a" ? ["a.ts", "shared.ts"] : ["shared.ts"])
+        ),
+      }));
+
+      mock.module("../utils/config", () => ({
+        getConfig: mock(() => ({})),
+      }));
+
+      mock.module("./branch", () => ({
+        branch: mock((options: any) => {
+          branchCalls.push(options);
+          return Promise.resolve({
+            success: true,
+            branchName: options.branch,
+            owner: options.include,
+            files: options.files,
+            pushed: false,
+          });
+        }),
+      }));
+    };
+
+    const filesByBranch = () =>
+      Object.fromEntries(branchCalls.map((c) => [c.branch, c.files]));
+
+    test("first-listed should give the file to the first owner on the rule", async () => {
+      setup();
+      const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+      await mockedMultiBranch({ branch: "feature", message: "test", coOwnedStrategy: "first-listed" });
+
+      expect(filesByBranch()).toEqual({
+        "feature/team-a": ["a.ts"],
+        "feature/team-b": ["shared.ts"],
+      });
+    });
+
+    test("most-specific-rule should prefer the owner with the most specific rule", async () => {
+      setup();
+      // Both owners are on /shared.ts, so the tie falls back to the first listed
+      const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+      await mockedMultiBranch({ branch: "feature", message: "test", coOwnedStrategy: "most-specific-rule" });
+      expect(filesByBranch()["feature/team-b"]).toEqual(["shared.ts"]);
+
+      // Only @team-a is on the specific rule
+      ownership["shared.ts"].sections[0].rule = rule(2, "/shared.ts", ["@team-a"]);
+      setup();
+      await mockedMultiBranch({ branch: "feature", message: "test", coOwnedStrategy: "most-specific-rule" });
+      ownership["shared.ts"].sections[0].rule = rule(2, "/shared.ts", ["@team-b", "@team-a"]);
+
+      expect(filesByBranch()).toEqual({
+        "feature/team-a": ["a.ts", "shared.ts"],
+      });
+    });
+
+    test("shared-branch should move co-owned files to a combined branch", async () => {
+      setup();
+      const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+      await mockedMultiBranch({ branch: "feature", message: "test", coOwnedStrategy: "shared-branch" });
+
+      expect(filesByBranch()).toEqual({
+        "feature/team-a": ["a.ts"],
+        "feature/co-owned": ["shared.ts"],
+      });
+      const shared = branchCalls.find((c) => c.branch === "feature/co-owned");
+      expect(shared.include).toBe("@team-a,@team-b");
+      expect(shared.ownerGroup).toBe("co-owned");
+    });
+
+    test("should skip owners whose files are all co-owned", async () => {
+      setup();
+      const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+
+      // @team-b only owns shared.ts, which moves to the combined branch
+      await mockedMultiBranch({ branch: "feature", message: "test", coOwnedStrategy: "shared-branch" });
+      expect(branchCalls.map((c) => c.branch)).toEqual(["feature/team-a", "feature/co-owned"]);
+      expect(consoleOutput.some((msg) => msg.includes("Successfully created 2 of 2 branches"))).toBe(true);
+      expect(consoleOutput.some((msg) => msg.includes("Failed"))).toBe(false);
+
+      // The dry-run does not list it either
+      consoleOutput = [];
+      await mockedMultiBranch({
+        branch: "feature",
+        message: "test",
+        coOwnedStrategy: "shared-branch",
+        dryRun: true,
+      });
+      expect(consoleOutput.some((msg) => msg.includes("feature/team-b"))).toBe(false);
+      expect(consoleOutput.some((msg) => msg.includes("feature/co-owned"))).toBe(true);
+    });
+
+    test("duplicate-error should fail when a file is co-owned", async () => {
+      setup();
+      const { multiBranch: mockedMultiBranch } = await import("./multi-branch");
+      try {
+        await mockedMultiBranch({ branch: "feature", message: "test", coOwnedStrategy: "duplicate-error" });
+      } catch (e: any) {
+        expect(e.message).toContain("process.exit(1)");
+      }
+
+      expect(exitCode).toBe(1);
+      expect(branchCalls).toEqual([]);
+      expect(consoleErrors.some((msg) => msg.includes("shared.ts (@team-a, @team-b)"))).toBe(true);
+      // Fails as an input error, without an operation to recover
+      expect(consoleOutput.some((msg) => msg.includes("Operation ID"))).toBe(false);
+    });
+  });
 });
+
@@ -11,19 +11,78 @@ import {
   createBranch as createGitBranch,
   deleteBranch,
   hasStagedChanges,
+  getGitUser,
+  getRepoRoot,
+  isValidBranchName,
+  describeBranchStrategy,
+  getBranchStrategyName,
+  getBaseBranchName,
+  getMergeBase,
+  resolveBaseRef,
 } from "../utils/git";
-import { getOwner, getOwnerFiles } from "../utils/codeowners";
-import { branch, type BranchResult } from "./branch";
+import {
+  getOwner,
+  getOwnership,
+  getOwnerFiles,
+  getCodeowners,
+  resolveCodeowners,
+  describeCodeownersSource,
+} from "../utils/codeowners";
+import { patternSpecificity } from "../utils/codeowners-parser";
+import {
+  DEFAULT_BRANCH_TEMPLATE,
+  findBranchCollisions,
+  packageName,
+  renderBranchTemplate,
+  templatePlaceholders,
+} from "../utils/branch-template";
+import {
+  branch,
+  publishBranch,
+  rollbackBranch,
+  type BranchOptions,
+  type BranchResult,
+} from "./branch";
 import { performRecovery } from "./recover";
-import { log, setSilent, outputJson } from "../utils/logger";
+import { log, setSilent, outputJson, bufferLogs } from "../utils/logger";
+import { mapWithConcurrency, parseConcurrency } from "../utils/concurrency";
 import Table from "cli-table3";
 import chalk from "chalk";
-import { filterByPathPatterns, matchOwnerPattern } from "../utils/matcher";
+import { existsSync } from "fs";
+import path from "path";
+import {
+  filterByPathPatterns,
+  groupOwners,
+  matchOwnerPattern,
+} from "../utils/matcher";
+import {
+  describeConfigOptions,
+  describeOwnerOverride,
+  getConfig,
+  getConfigFile,
+  getOwnerOverride,
+  type OwnerOverride,
+} from "../utils/config";
+import {
+  addConventionalScope,
+  CONVENTIONAL_MESSAGE_TEMPLATE,
+  conventionalScope,
+  DEFAULT_MESSAGE_TEMPLATE,
+  messagePlaceholders,
+  renderMessageTemplate,
+  SCOPE_SOURCES,
+  type ScopeSource,
+  validateConventionalMessage,
+} from "../utils/message-template";
+import { updatePullRequestBody } from "../utils/github";
+import { fillRelatedPRs, hasRelatedPRs, prPlaceholders } from "../utils/pr-template";
+import { getTeam, teamLabel } from "../utils/teams";
 import {
   createOperationState,
   completeOperation,
   failOperation,
   loadOperationState,
+  updateBranchState,
   type OperationStateData,
 } from "../utils/state";
 
@@ -50,12 +109,85 @@ export type MultiBranchOptions = {
   source?: string; // Source branch or commit to extract changes from
   compareMain?: boolean; // Compare source against main instead of detecting merge-base
   prBody?: string; // Custom PR body text (overrides template)
+  prTitle?: string; // PR title template (defaults to the first line of the commit message)
+  prBodyTemplate?: string; // PR body template, with placeholders (see pr-template.ts)
+  ownersRef?: string; // Git ref to read CODEOWNERS from (defaults to the PR base branch)
+  groupBy?: "owner" | "section"; // Create one branch per owner or per GitLab section
+  coOwnedStrategy?: CoOwnedStrategy; // Which branch gets a file owned by several owners
+  branchTemplate?: string; // Branch name template, e.g. "{user}/{base}-{team}"
+  messageTemplate?: string; // Commit message template, e.g. "{message} ({fileCount} files)"
+  conventional?: boolean; // Add a Conventional Commits scope and validate messages
+  scopeFrom?: ScopeSource; // Derive the scope from the "owner" (default) or "package"
+  configOptions?: string[]; // Options whose value came from the config file
+  worktree?: boolean; // Shorthand for strategy "worktree"
+  strategy?: string; // How branches are built: "checkout" (default), "worktree" or "plumbing"
+  base?: string; // Branch new branches start from and PRs target, instead of HEAD and the default branch
+  concurrency?: string | number; // Pushes and PR creations to run at once (default: 1)
+};
+
+export type CoOwnedStrategy =
+  | "first-listed" // Owner listed first in CODEOWNERS
+  | "most-specific-rule" // Owner with the most specific matching rule
+  | "shared-branch" // All co-owned files go to one combined branch
+  | "duplicate-error"; // Fail when any file is co-owned
+
+const CO_OWNED_STRATEGIES: CoOwnedStrategy[] = [
+  "first-listed",
+  "most-specific-rule",
+  "shared-branch",
+  "duplicate-error",
+];
+
+// Branch suffix for the combined branch of the shared-branch strategy
+const SHARED_BRANCH_OWNER = "co-owned";
+
+// Name used for GitLab rules that appear before the first section header
+const DEFAULT_SECTION = "default";
+
+/**
+ * Group files by the GitLab CODEOWNERS sections that own them.
+ * Rules outside of any section belong to the default section.
+ */
+const groupFilesBySection = (
+  files: string[],
+  exclusive: boolean,
+  coOwned: boolean
+): { sectionFiles: Map<string, string[]>; unowned: string[] } => {
+  const sectionFiles = new Map<string, string[]>();
+  const unowned: string[] = [];
+
+  for (const file of files) {
+    const sections = getOwnership(file).sections;
+    if (sections.length === 0) {
+      unowned.push(file);
+      continue;
+    }
+    // Exclusive: owned by a single section, co-owned: owned by several
+    if (exclusive && sections.length !== 1) continue;
+    if (coOwned && sections.length < 2) continue;
+
+    for (const match of sections) {
+      const name = match.section ?? DEFAULT_SECTION;
+      const sectionList = sectionFiles.get(name) || [];
+      sectionList.push(file);
+      sectionFiles.set(name, sectionList);
+    }
+  }
+
+  return { sectionFiles, unowned };
 };
 
 export const multiBranch = async (options: MultiBranchOptions) => {
   let operationState: OperationStateData | null = null;
   let tempBranch: string | null = null;
   let sourceOriginalBranch: string | null = null;
+  // With --source and a strategy other than checkout, branches start from the
+  // default branch (or --base) and take the files straight from the source
+  let baseRef: string | undefined;
+  let filesRef: string | undefined;
+  // With --base, the commit the files' changes are merged from onto the base
+  let changesFrom: string | undefined;
+  let sourceFiles: string[] | undefined;
 
   // Enable silent mode when JSON output is requested
   if (options.json) {
@@ -81,6 +213,63 @@ export const multiBranch = async (options: MultiBranchOptions) => {
       throw new Error("Cannot use both --pr and --draft-pr options");
     }
 
+    if (options.prBody && options.prBodyTemplate) {
+      throw new Error("Cannot use both --pr-body and --pr-body-template options");
+    }
+
+    const strategyName = getBranchStrategyName(options.strategy, options.worktree, options.base);
+    if (options.base) {
+      baseRef = await resolveBaseRef(options.base, options.remote);
+    }
+
+    // With a concurrency above 1, every branch is committed first, then the
+    // branches are pushed (and their PRs created) concurrently
+    const concurrency = parseConcurrency(options.concurrency);
+    const deferPublish = concurrency > 1 && !!options.push;
+
+    const groupBy = options.groupBy ?? "owner";
+    if (groupBy !== "owner" && groupBy !== "section") {
+      throw new Error(`Invalid --group-by value "${groupBy}" (expected "owner" or "section")`);
+    }
+    const groupBySection = groupBy === "section";
+
+    if (
+      options.coOwnedStrategy &&
+      !CO_OWNED_STRATEGIES.includes(options.coOwnedStrategy)
+    ) {
+      throw new Error(
+        `Invalid --co-owned-strategy value "${options.coOwnedStrategy}" (expected ${CO_OWNED_STRATEGIES.join(", ")})`
+      );
+    }
+
+    // Reject unknown placeholders and options before doing any work
+    const branchTemplate = options.branchTemplate ?? DEFAULT_BRANCH_TEMPLATE;
+    const placeholders = templatePlaceholders(branchTemplate);
+    if (options.prTitle) prPlaceholders(options.prTitle);
+    if (options.prBodyTemplate) prPlaceholders(options.prBodyTemplate);
+    const messageTemplate =
+      options.messageTemplate ??
+      (options.conventional ? CONVENTIONAL_MESSAGE_TEMPLATE : DEFAULT_MESSAGE_TEMPLATE);
+    const messageFields = messagePlaceholders(messageTemplate);
+
+    const scopeFrom = options.scopeFrom ?? "owner";
+    if (!SCOPE_SOURCES.includes(scopeFrom)) {
+      throw new Error(
+        `Invalid --scope-from value "${scopeFrom}" (expected ${SCOPE_SOURCES.join(" or ")})`
+      );
+    }
+
+    // Resolve ownership from the CODEOWNERS at the PR base (or --owners-ref)
+    await resolveCodeowners({
+      ownersRef: options.ownersRef,
+      baseBranch: options.base ? getBaseBranchName(options.base, options.remote) : undefined,
+      remote: options.remote,
+    });
+
+    if (groupBySection && getCodeowners().sections.length === 0) {
+      throw new Error("--group-by section requires a GitLab CODEOWNERS file with [Section] headers");
+    }
+
     // When --source is provided, set up a temp branch with extracted files
     if (options.source) {
       // Reject if user also has staged changes (ambiguous intent)
@@ -96,14 +285,18 @@ export const multiBranch = async (options: MultiBranchOptions) => {
 
       // Determine the base to compare against
       const defaultBranch = await getDefaultBranch();
-      const compareTarget = options.compareMain ? defaultBranch : undefined;
+      const compareTarget = options.compareMain ? defaultBranch : baseRef;
 
       if (compareTarget) {
         log.info(`Comparing ${options.source} against ${compareTarget}...`);
       }
 
       // Get changed files from the source ref
-      let sourceFiles = await getChangedFilesBetween(options.source, compareTarget);
+      sourceFiles = await getChangedFilesBetween(
+        options.source,
+        compareTarget,
+        getConfig().baseCandidates
+      );
 
       if (sourceFiles.length === 0) {
         throw new Error(`No changed files found in ${options.source}`);
@@ -122,20 +315,29 @@ export const multiBranch = async (options: MultiBranchOptions) => {
 
       log.info(`Found ${sourceFiles.length} changed file${sourceFiles.length !== 1 ? "s" : ""} in source`);
 
-      // Create a temporary branch off the default branch
-      tempBranch = `cg-temp-${Date.now()}`;
-      log.info(`Creating temporary branch "${tempBranch}" from "${defaultBranch}"...`);
-      await checkout(defaultBranch);
-      await createGitBranch(tempBranch);
+      if (strategyName !== "checkout") {
+        if (options.base) {
+          changesFrom = await getMergeBase(options.source, compareTarget!);
+        } else {
+          baseRef = defaultBranch;
+        }
+        filesRef = options.source;
+      } else {
+        // Create a temporary branch off the default branch
+        tempBranch = `cg-temp-${Date.now()}`;
+        log.info(`Creating temporary branch "${tempBranch}" from "${defaultBranch}"...`);
+        await checkout(defaultBranch);
+        await createGitBranch(tempBranch);
 
-      // Extract file contents from the source ref into the working directory
-      log.info("Extracting files from source...");
-      await extractFilesFromRef(options.source, sourceFiles);
+        // Extract file contents from the source ref into the working directory
+        log.info("Extracting files from source...");
+        await extractFilesFromRef(options.source, sourceFiles);
 
-      // Stage the extracted files
-      await stageFiles(sourceFiles);
+        // Stage the extracted files
+        await stageFiles(sourceFiles);
 
-      log.info("Files extracted and staged on temporary branch. Proceeding with multi-branch split...\n");
+        log.info("Files extracted and staged on temporary branch. Proceeding with multi-branch split...\n");
+      }
     }
 
     // Warn about unstaged changes that will be ignored (skip when using --source)
@@ -150,28 +352,17 @@ export const multiBranch = async (options: MultiBranchOptions) => {
 
     log.info(options.append ? "Starting multi-branch update process..." : "Starting multi-branch creation process...");
 
-    // Create operation state
     // When using --source, the "original branch" is the temp branch (where staged files live)
     // We track the real original branch separately for cleanup
     const originalBranch = await getCurrentBranch();
-    operationState = createOperationState("multi-branch", originalBranch, {
-      verify: options.verify,
-      push: options.push,
-      remote: options.remote,
-      force: options.force,
-      keepBranchOnFailure: options.keepBranchOnFailure,
-      pr: options.pr,
-      draftPr: options.draftPr,
-    });
-    log.info(`Operation ID: ${operationState.id}`);
 
-    // Get all changed files
-    let changedFiles = await getChangedFiles();
+    // Snapshot the staged files once, it is kept up to date as branches commit
+    let stagedFiles = filesRef ? sourceFiles! : await getChangedFiles();
 
     // Apply path filtering (returns all files if no pattern)
     // When --source is used, path filtering was already applied above, but
     // getChangedFiles() re-reads from the index so this is still correct
-    changedFiles = filterByPathPatterns(changedFiles, options.pathPattern);
+    const changedFiles = filterByPathPatterns(stagedFiles, options.pathPattern);
 
     if (changedFiles.length === 0) {
       throw new Error(
@@ -181,17 +372,32 @@ export const multiBranch = async (options: MultiBranchOptions) => {
       );
     }
 
-    // Extract all codeowners from the changed files
+    // Extract all codeowners (or sections with --group-by section) from the changed files
     const ownerSet = new Set<string>();
     const filesWithoutOwners: string[] = [];
-    
-    for (const file of changedFiles) {
-      const owners = getOwner(file);
-      if (owners.length === 0) {
-        filesWithoutOwners.push(file);
-      } else {
-        for (const owner of owners) {
-          ownerSet.add(owner);
+    // Files per branch when they are known up front (sections, --co-owned-strategy)
+    let knownFiles: Map<string, string[]> | null = null;
+
+    if (groupBySection) {
+      const grouped = groupFilesBySection(
+        changedFiles,
+        options.exclusive || false,
+        options.coOwned || false
+      );
+      knownFiles = grouped.sectionFiles;
+      filesWithoutOwners.push(...grouped.unowned);
+      for (const section of knownFiles.keys()) {
+        ownerSet.add(section);
+      }
+    } else {
+      for (const file of changedFiles) {
+        const owners = getOwner(file);
+        if (owners.length === 0) {
+          filesWithoutOwners.push(file);
+        } else {
+          for (const owner of owners) {
+            ownerSet.add(owner);
+          }
         }
       }
     }
@@ -202,12 +408,39 @@ export const multiBranch = async (options: MultiBranchOptions) => {
     if (filesWithoutOwners.length > 0 && options.defaultOwner) {
       log.info(`Found ${filesWithoutOwners.length} files without owners. Adding default owner: ${options.defaultOwner}`);
       codeowners.push(options.defaultOwner);
+      knownFiles?.set(options.defaultOwner, filesWithoutOwners);
     }
 
+    // Owner groups from the config: group name → underlying owners
+    const ownerGroupMembers = new Map<string, string[]>();
+
+    // Owner pattern matching every owner behind a branch
+    const ownerPatternFor = (owner: string) =>
+      ownerGroupMembers.get(owner)?.join(",") ?? owner;
+
+    const isDefaultOwner = (owner: string) =>
+      ownerGroupMembers.get(owner)?.includes(options.defaultOwner ?? "") ??
+      owner === options.defaultOwner;
+
+    // Files known up front are used as is, owners are matched by branch()
+    const groupFiles = (owner: string) =>
+      knownFiles
+        ? Promise.resolve(knownFiles.get(owner) || [])
+        : getOwnerFiles(
+            ownerPatternFor(owner),
+            isDefaultOwner(owner),
+            options.pathPattern,
+            options.exclusive || false,
+            options.coOwned || false,
+            stagedFiles
+          );
+
     if (codeowners.length === 0) {
       log.warn("No codeowners found for the changed files");
       log.info("Continuing without creating any branches (use --default-owner to specify a fallback)");
       return;
+    } else if (groupBySection) {
+      log.info(`Found ${codeowners.length} sections: ${codeowners.join(", ")}`);
     } else {
       log.info(`Found ${codeowners.length} codeowners: ${codeowners.join(", ")}`);
     }
@@ -234,8 +467,217 @@ export const multiBranch = async (options: MultiBranchOptions) => {
       log.info(`Processing ${codeowners.length} codeowners after filtering: ${codeowners.join(", ")}`);
     }
 
+    // Merge owners that share a reviewing group into one branch per group
+    const configuredGroups = getConfig().ownerGroups;
+    if (!groupBySection && configuredGroups) {
+      const groups = groupOwners(codeowners, configuredGroups);
+      for (const group of groups) {
+        if (configuredGroups[group.name]) {
+          ownerGroupMembers.set(group.name, group.owners);
+          log.info(`Grouped ${group.owners.join(", ")} into "${group.name}"`);
+        }
+      }
+      codeowners = groups.map((group) => group.name);
+    }
+
+    // Find files that more than one branch would claim, and decide where they go.
+    // Without --co-owned-strategy the first branch processed takes the file.
+    // Sections are pinned even then: their files are known up front, so a
+    // file owned by several sections would otherwise be listed in each of them.
+    type CoOwnedFile = { file: string; owners: string[]; owner: string };
+    const coOwnedFiles: CoOwnedFile[] = [];
+    const pinFiles = !!options.coOwnedStrategy || groupBySection;
+
+    if (pinFiles || options.dryRun) {
+      const candidates = new Map<string, string[]>();
+      const fileOwners = new Map<string, string[]>();
+      for (const owner of codeowners) {
+        const files = await groupFiles(owner);
+        candidates.set(owner, files);
+        for (const file of files) {
+          fileOwners.set(file, [...(fileOwners.get(file) || []), owner]);
+        }
+      }
+
+      // Position of a branch's owner (or section) in the file's ownership
+      const listedIndex = (file: string, owner: string): number => {
+        const ownership = getOwnership(file);
+        const members = ownerGroupMembers.get(owner) ?? [owner];
+        const index = groupBySection
+          ? ownership.sections.findIndex((s) => (s.section ?? DEFAULT_SECTION) === owner)
+          : ownership.owners.findIndex((o) => members.includes(o));
+        return index === -1 ? Number.POSITIVE_INFINITY : index;
+      };
+
+      // Specificity of the most specific matching rule that assigns the file to a branch
+      const ruleSpecificity = (file: string, owner: string): number => {
+        const members = ownerGroupMembers.get(owner) ?? [owner];
+        const rules = getOwnership(file)
+          .sections.filter((s) => !groupBySection || (s.section ?? DEFAULT_SECTION) === owner)
+          .flatMap((s) => [s.rule, ...s.overridden])
+          .filter((rule) => groupBySection || rule.owners.some((o) => members.includes(o)));
+        return Math.max(-1, ...rules.map((rule) => patternSpecificity(rule.pattern)));
+      };
+
+      for (const [file, owners] of fileOwners) {
+        if (owners.length < 2) continue;
+
+        let owner = owners[0];
+        if (options.coOwnedStrategy === "first-listed" || options.coOwnedStrategy === "most-specific-rule") {
+          const ranked = [...owners].sort((a, b) => listedIndex(file, a) - listedIndex(file, b));
+          if (options.coOwnedStrategy === "most-specific-rule") {
+            // Stable sort keeps the first-listed owner on ties
+            ranked.sort((a, b) => ruleSpecificity(file, b) - ruleSpecificity(file, a));
+          }
+          owner = ranked[0];
+        } else if (options.coOwnedStrategy === "shared-branch") {
+          owner = SHARED_BRANCH_OWNER;
+        }
+        coOwnedFiles.push({ file, owners, owner });
+      }
+
+      if (options.coOwnedStrategy === "duplicate-error" && coOwnedFiles.length > 0) {
+        throw new Error(
+          `${coOwnedFiles.length} co-owned file${coOwnedFiles.length !== 1 ? "s" : ""} would be claimed by several branches:\n` +
+            coOwnedFiles.map((c) => `  ${c.file} (${c.owners.join(", ")})`).join("\n")
+        );
+      }
+
+      // Pin every file to its branch so processing order no longer matters
+      if (pinFiles) {
+        const assigned = new Map(coOwnedFiles.map((c) => [c.file, c.owner]));
+        const pinned = new Map<string, string[]>();
+        knownFiles = pinned;
+        for (const [owner, files] of candidates) {
+          pinned.set(
+            owner,
+            files.filter((file) => (assigned.get(file) ?? owner) === owner)
+          );
+        }
+
+        if (options.coOwnedStrategy === "shared-branch" && coOwnedFiles.length > 0) {
+          // The combined branch is treated as a group of every owner involved
+          const sharedOwners = new Set(
+            coOwnedFiles.flatMap((c) => c.owners.flatMap((o) => ownerGroupMembers.get(o) ?? [o]))
+          );
+          codeowners.push(SHARED_BRANCH_OWNER);
+          pinned.set(SHARED_BRANCH_OWNER, coOwnedFiles.map((c) => c.file));
+          ownerGroupMembers.set(SHARED_BRANCH_OWNER, Array.from(sharedOwners));
+        }
+
+        // Owners whose files all went to other branches get no branch
+        codeowners = codeowners.filter((owner) => (pinned.get(owner)?.length ?? 0) > 0);
+      }
+    }
+
+    // Name every branch and write every commit message up front, so that
+    // invalid names or messages fail before any branch is created
+    const user = placeholders.includes("user") ? await getGitUser() : null;
+    if (placeholders.includes("user") && !user) {
+      throw new Error("Cannot resolve {user}: git user.email and user.name are not set");
+    }
+    const needsPackage =
+      placeholders.includes("package") ||
+      messageFields.includes("package") ||
+      (options.conventional && scopeFrom === "package");
+    const repoRoot = needsPackage ? await getRepoRoot() : "";
+    const isPackage = (directory: string) =>
+      existsSync(path.join(repoRoot, directory, "package.json"));
+    const source = options.source || originalBranch;
+    const now = new Date();
+
+    const branchNames = new Map<string, string>();
+    const commitMessages = new Map<string, string>();
+    // Owner overrides from the config, matched against the owner and its group members
+    const overrides = new Map<string, OwnerOverride>();
+    for (const [index, owner] of codeowners.entries()) {
+      const override = getOwnerOverride([owner, ...(ownerGroupMembers.get(owner) ?? [])]);
+      overrides.set(owner, override);
+
+      const files =
+        needsPackage || messageFields.includes("fileCount") ? await groupFiles(owner) : [];
+      const pkg = needsPackage ? packageName(files, isPackage) : undefined;
+
+      branchNames.set(
+        owner,
+        renderBranchTemplate(branchTemplate, {
+          base: options.branch,
+          owner,
+          index: index + 1,
+          date: now,
+          user: user ?? undefined,
+          source,
+          package: pkg,
+        })
+      );
+
+      let commitMessage = renderMessageTemplate(messageTemplate, {
+        message: options.message,
+        owner,
+        fileCount: files.length,
+        source,
+        package: pkg,
+      });
+      if (options.conventional) {
+        commitMessage = addConventionalScope(
+          commitMessage,
+          conventionalScope(owner, pkg ?? "", scopeFrom)
+        );
+      }
+      commitMessages.set(owner, `${override.messagePrefix ?? ""}${commitMessage}`);
+    }
+
+    const collisions = findBranchCollisions(branchNames);
+    if (collisions.size > 0) {
+      throw new Error(
+        `Branch template "${branchTemplate}" gives several owners the same branch:\n` +
+          Array.from(collisions)
+            .map(([name, owners]) => `  ${name} (${owners.join(", ")})`)
+            .join("\n")
+      );
+    }
+
+    const invalidNames: string[] = [];
+    for (const name of branchNames.values()) {
+      if (!(await isValidBranchName(name))) invalidNames.push(name);
+    }
+    if (invalidNames.length > 0) {
+      throw new Error(
+        `Branch template "${branchTemplate}" gives invalid branch names (see git check-ref-format):\n` +
+          invalidNames.map((name) => `  ${name}`).join("\n")
+      );
+    }
+
+    if (options.conventional) {
+      const invalidMessages = Array.from(commitMessages).flatMap(([owner, message]) =>
+        validateConventionalMessage(message).map((problem) => `  ${owner}: ${problem}`)
+      );
+      if (invalidMessages.length > 0) {
+        throw new Error(
+          `Commit messages do not follow Conventional Commits:\n${invalidMessages.join("\n")}`
+        );
+      }
+    }
+
+    // Create operation state (input errors above fail without one)
+    operationState = createOperationState("multi-branch", originalBranch, {
+      verify: options.verify,
+      push: options.push,
+      remote: options.remote,
+      force: options.force,
+      keepBranchOnFailure: options.keepBranchOnFailure,
+      pr: options.pr,
+      draftPr: options.draftPr,
+    });
+    log.info(`Operation ID: ${operationState.id}`);
+
     // Dry-run: show a complete summary for all owners and exit
     if (options.dryRun) {
+      // PRs target --base or the default branch, unless an owner override sets a base
+      const prBase = options.base
+        ? getBaseBranchName(options.base, options.remote)
+        : await getDefaultBranch();
+
       // Collect per-owner file breakdowns (shared between JSON and table output)
       type OwnerPreview = {
         owner: string;
@@ -247,19 +689,10 @@ export const multiBranch = async (options: MultiBranchOptions) => {
       const allCoveredFiles = new Set<string>();
 
       for (const owner of codeowners) {
-        const sanitizedOwner = owner
-          .replace(/[^a-zA-Z0-9-_@]/g, "-")
-          .replace(/^@/, "");
-        const branchName = `${options.branch}/${sanitizedOwner}`;
-        const commitMessage = `${options.message} - ${owner}`;
+        const branchName = branchNames.get(owner)!;
+        const commitMessage = commitMessages.get(owner)!;
 
-        const ownerFiles = await getOwnerFiles(
-          owner,
-          owner === options.defaultOwner,
-          options.pathPattern,
-          options.exclusive || false,
-          options.coOwned || false
-        );
+        const ownerFiles = await groupFiles(owner);
 
         for (const f of ownerFiles) allCoveredFiles.add(f);
 
@@ -285,8 +718,20 @@ export const multiBranch = async (options: MultiBranchOptions) => {
             branch: p.branchName,
             message: p.commitMessage,
             files: p.files,
+            team: getTeam(p.owner),
+            prBase: overrides.get(p.owner)?.base ?? prBase,
+            overrides: overrides.get(p.owner),
+            ...(ownerGroupMembers.has(p.owner)
+              ? { groupOwners: ownerGroupMembers.get(p.owner) }
+              : {}),
           })),
           uncoveredFiles,
+          coOwnedFiles: coOwnedFiles.map((c) => ({
+            file: c.file,
+            owners: c.owners,
+            owner: c.owner,
+            branch: branchNames.get(c.owner),
+          })),
           filesWithoutOwners: options.defaultOwner ? [] : filesWithoutOwners,
           totalFiles: changedFiles.length,
           coveredFiles: allCoveredFiles.size,
@@ -304,7 +749,23 @@ export const multiBranch = async (options: MultiBranchOptions) => {
             coOwned: options.coOwned || false,
             pathPattern: options.pathPattern || null,
             defaultOwner: options.defaultOwner || null,
+            ownersRef: options.ownersRef || null,
+            groupBy,
+            coOwnedStrategy: options.coOwnedStrategy || null,
+            branchTemplate,
+            messageTemplate,
+            conventional: options.conventional || false,
+            scopeFrom: options.conventional ? scopeFrom : null,
+            prTitle: options.prTitle || null,
+            prBodyTemplate: options.prBodyTemplate || null,
+            strategy: strategyName,
+            base: options.base || null,
+            concurrency,
           },
+          codeownersSource: describeCodeownersSource(getCodeowners()),
+          ...(options.configOptions?.length
+            ? { config: { path: getConfigFile().path, options: options.configOptions } }
+            : {}),
         });
         return;
       }
@@ -320,7 +781,13 @@ export const multiBranch = async (options: MultiBranchOptions) => {
       settingsTable.push(
         { [chalk.bold("Base branch name")]: options.branch },
         { [chalk.bold("Base commit message")]: options.message },
-        { [chalk.bold("Total codeowners")]: `${codeowners.length}` },
+        {
+          [chalk.bold(groupBySection ? "Total sections" : "Total codeowners")]:
+            `${codeowners.length}`,
+        },
+        {
+          [chalk.bold("CODEOWNERS")]: describeCodeownersSource(getCodeowners()),
+        },
         { [chalk.bold("No-verify")]: !options.verify ? "Yes" : "No" },
         {
           [chalk.bold("Push")]: options.push
@@ -356,23 +823,76 @@ export const multiBranch = async (options: MultiBranchOptions) => {
           [chalk.bold("Default owner")]: options.defaultOwner,
         });
       }
+      if (groupBySection) {
+        settingsTable.push({
+          [chalk.bold("Group by")]: "GitLab CODEOWNERS section",
+        });
+      }
+      settingsTable.push({
+        [chalk.bold("Co-owned strategy")]:
+          options.coOwnedStrategy ?? "none (first branch processed takes the file)",
+      });
+      if (options.branchTemplate) {
+        settingsTable.push({ [chalk.bold("Branch template")]: options.branchTemplate });
+      }
+      if (options.messageTemplate) {
+        settingsTable.push({ [chalk.bold("Message template")]: options.messageTemplate });
+      }
+      if (options.prTitle) {
+        settingsTable.push({ [chalk.bold("PR title template")]: options.prTitle });
+      }
+      if (options.prBodyTemplate) {
+        settingsTable.push({ [chalk.bold("PR body template")]: options.prBodyTemplate });
+      }
+      if (options.conventional) {
+        settingsTable.push({
+          [chalk.bold("Conventional Commits")]: `Yes (scope from ${scopeFrom})`,
+        });
+      }
+      settingsTable.push({
+        [chalk.bold("Strategy")]: describeBranchStrategy(strategyName),
+      });
+      if (options.base) {
+        settingsTable.push({
+          [chalk.bold("Base")]: `${baseRef} (changes are merged onto it, PRs target ${prBase})`,
+        });
+      }
+      if (concurrency > 1) {
+        settingsTable.push({
+          [chalk.bold("Concurrency")]: `${concurrency} pushes${options.pr || options.draftPr ? " and PRs" : ""} at a time`,
+        });
+      }
+      if (options.configOptions?.length) {
+        settingsTable.push({
+          [chalk.bold("From config")]: describeConfigOptions(options.configOptions),
+        });
+      }
       console.log(settingsTable.toString());
       console.log("");
 
       // Summary table of all branches
+      // Only show overrides when the config has some for these branches
+      const hasOverrides = previews.some((p) => describeOwnerOverride(overrides.get(p.owner) ?? {}));
       const summaryTable = new Table({
-        head: ["Owner", "Branch", "Files", "Commit Message"],
-        colWidths: [22, 35, 8, 45],
+        head: [
+          groupBySection ? "Section" : "Owner",
+          "Branch",
+          "Files",
+          "Commit Message",
+          ...(hasOverrides ? ["Overrides"] : []),
+        ],
+        colWidths: hasOverrides ? [22, 30, 8, 35, 30] : [22, 35, 8, 45],
         wordWrap: true,
         style: { head: ["cyan"] },
       });
 
       for (const p of previews) {
         summaryTable.push([
-          p.owner,
+          teamLabel(p.owner),
           p.branchName,
           `${p.files.length}`,
           p.commitMessage,
+          ...(hasOverrides ? [describeOwnerOverride(overrides.get(p.owner) ?? {}) || "-"] : []),
         ]);
       }
 
@@ -381,16 +901,35 @@ export const multiBranch = async (options: MultiBranchOptions) => {
       // Per-owner file details
       console.log(chalk.bold.cyan("\nFiles by branch:"));
       for (const p of previews) {
+        const team = getTeam(p.owner);
         if (p.files.length > 0) {
           console.log(
-            `\n${chalk.bold(p.branchName)} ${chalk.dim(`(${p.owner})`)} — ${p.files.length} file${p.files.length !== 1 ? "s" : ""}:`
+            `\n${chalk.bold(p.branchName)} ${chalk.dim(`(${teamLabel(p.owner)})`)} — ${p.files.length} file${p.files.length !== 1 ? "s" : ""}:`
           );
+          if (team && team.members.length > 0) {
+            console.log(chalk.dim(`  Members: ${team.members.join(", ")}`));
+          }
+          if (ownerGroupMembers.has(p.owner)) {
+            console.log(chalk.dim(`  Owners: ${ownerGroupMembers.get(p.owner)!.join(", ")}`));
+          }
           p.files.forEach((file) =>
             console.log(`  ${chalk.green("+")} ${file}`)
           );
         } else {
           console.log(
-            `\n${chalk.bold(p.branchName)} ${chalk.dim(`(${p.owner})`)} — ${chalk.yellow("0 files (branch will be skipped)")}`
+            `\n${chalk.bold(p.branchName)} ${chalk.dim(`(${teamLabel(p.owner)})`)} — ${chalk.yellow("0 files (branch will be skipped)")}`
+          );
+        }
+      }
+
+      // Co-owned files and the branch each one will be committed to
+      if (coOwnedFiles.length > 0) {
+        console.log(
+          chalk.bold.cyan(`\nCo-owned files (${coOwnedFiles.length}):`)
+        );
+        for (const c of coOwnedFiles) {
+          console.log(
+            `  ${chalk.magenta("*")} ${c.file} ${chalk.dim(`(${c.owners.join(", ")})`)} → ${chalk.bold(branchNames.get(c.owner))}`
           );
         }
       }
@@ -422,6 +961,11 @@ export const multiBranch = async (options: MultiBranchOptions) => {
             "  Tip: Use --default-owner <owner> to assign these files"
           )
         );
+        console.log(
+          chalk.dim(
+            "  Tip: Run cg suggest-owners to propose CODEOWNERS rules from git history"
+          )
+        );
       }
 
       // Totals
@@ -442,25 +986,19 @@ export const multiBranch = async (options: MultiBranchOptions) => {
 
     // Track detailed results for each branch
     const results: BranchResult[] = [];
+    // Committed branches waiting to be pushed (--concurrency)
+    const unpublished: { index: number; branchOptions: BranchOptions }[] = [];
 
     // Process each codeowner
     for (const owner of codeowners) {
-      // Sanitize owner name for branch
-      const sanitizedOwner = owner
-        .replace(/[^a-zA-Z0-9-_@]/g, "-")
-        .replace(/^@/, "");
-
-      // Format branch name: [branch-option]/owner
-      const branchName = `${options.branch}/${sanitizedOwner}`;
-
-      // Format commit message with owner
-      const commitMessage = `${options.message} - ${owner}`;
+      const branchName = branchNames.get(owner)!;
+      const commitMessage = commitMessages.get(owner)!;
 
       log.info(options.append ? `Updating branch for ${owner}...` : `Creating branch for ${owner}...`);
 
       // Create or update branch for this owner
-      const result = await branch({
-        include: owner,
+      const branchOptions: BranchOptions = {
+        include: ownerPatternFor(owner),
         branch: branchName,
         message: commitMessage,
         verify: options.verify,
@@ -469,19 +1007,125 @@ export const multiBranch = async (options: MultiBranchOptions) => {
         upstream: options.upstream,
         force: options.force,
         keepBranchOnFailure: options.keepBranchOnFailure,
-        isDefaultOwner: owner === options.defaultOwner,
+        isDefaultOwner: isDefaultOwner(owner),
         append: options.append,
         pr: options.pr,
         draftPr: options.draftPr,
         operationState: operationState || undefined, // Pass operation state
         pathPattern: options.pathPattern, // Pass path pattern
+        files: knownFiles ? knownFiles.get(owner) || [] : undefined, // Pass precomputed files
         exclusive: options.exclusive, // Pass exclusive flag
         coOwned: options.coOwned, // Pass co-owned flag
         json: options.json, // Pass json flag (for silent push)
         prBody: options.prBody, // Pass custom PR body
-      });
+        prTitle: options.prTitle, // Pass PR title template
+        prBodyTemplate: options.prBodyTemplate, // Pass PR body template
+        source: options.source, // Pass source ref (for PR templates)
+        ownerGroup: ownerGroupMembers.has(owner) ? owner : undefined, // Pass owner group name
+        stagedFiles, // Pass staged files snapshot
+        strategy: strategyName, // Pass branch strategy
+        base: options.base, // Pass base branch (--base)
+        baseRef, // Pass branch base (--source, --base)
+        filesRef, // Pass file source (--source)
+        changesFrom, // Pass the commit changes are merged from (--base)
+        deferPublish, // Push later, concurrently
+      };
+      const result = await branch(branchOptions);
+
+      // Committed files are no longer staged; re-read after a failure since
+      // files may have been restored (only the checkout strategy touches the index)
+      if (result.success) {
+        const committed = new Set(result.files);
+        stagedFiles = stagedFiles.filter((file) => !committed.has(file));
+      } else if (strategyName === "checkout") {
+        stagedFiles = await getChangedFiles();
+      }
+
+      if (deferPublish && result.success) {
+        unpublished.push({ index: results.length, branchOptions });
+      }
+
+      // Report grouped branches under the group name
+      results.push(ownerGroupMembers.has(owner) ? { ...result, owner } : result);
+    }
+
+    // Push the committed branches and create their PRs, a few at a time.
+    // Each branch's output is held back and printed in order.
+    if (unpublished.length > 0) {
+      log.info(
+        `\nPushing ${unpublished.length} branch${unpublished.length !== 1 ? "es" : ""}, ${concurrency} at a time...`
+      );
+
+      const pushErrors = await mapWithConcurrency(
+        unpublished,
+        concurrency,
+        ({ index, branchOptions }) =>
+          bufferLogs(async () => {
+            const result = results[index];
+            try {
+              const published = await publishBranch(
+                {
+                  branch: result.branchName,
+                  message: branchOptions.message!,
+                  owner: branchOptions.include!,
+                  files: result.files,
+                  source: options.source || originalBranch,
+                },
+                branchOptions,
+                { operationState, silent: true }
+              );
+              results[index] = { ...result, ...published };
+              return null;
+            } catch (error) {
+              log.error(`Failed to push "${result.branchName}": ${error}`);
+              return error;
+            }
+          }),
+        ({ flush }) => flush()
+      );
+
+      // Undo the branches that could not be pushed one at a time, since
+      // restoring files writes to the index
+      for (const [i, { index }] of unpublished.entries()) {
+        const error = pushErrors[i].result;
+        if (!error) continue;
 
-      results.push(result);
+        const result = results[index];
+        results[index] = { ...result, success: false, error: String(error) };
+        if (operationState) {
+          updateBranchState(operationState.id, result.branchName, { error: String(error) });
+        }
+        if (options.append) {
+          // The branch may predate this run, so it is kept with the new commit
+          log.info(`Branch "${result.branchName}" was kept with the new commit, push it again later.`);
+          continue;
+        }
+        try {
+          await rollbackBranch(result.branchName, result.files, {
+            restoreFiles: strategyName === "checkout",
+            keepBranch: options.keepBranchOnFailure,
+          });
+        } catch (rollbackError) {
+          log.error(`Error during cleanup: ${rollbackError}`);
+        }
+      }
+    }
+
+    // Link the PRs of this run to each other, now that they all exist
+    const relatedPRs = results
+      .filter((r) => r.prUrl && r.prNumber)
+      .map((r) => ({ owner: r.owner, branch: r.branchName, url: r.prUrl!, number: r.prNumber! }));
+    for (const result of results) {
+      if (!result.prNumber || !result.prBody || !hasRelatedPRs(result.prBody)) continue;
+      try {
+        await updatePullRequestBody(
+          result.prNumber,
+          fillRelatedPRs(result.prBody, result.prNumber, relatedPRs)
+        );
+        log.info(`Linked ${relatedPRs.length - 1} related PR${relatedPRs.length === 2 ? "" : "s"} in #${result.prNumber}`);
+      } catch (error) {
+        log.warn(`Failed to link related PRs in #${result.prNumber}: ${error}`);
+      }
     }
 
     // Display detailed summary table
@@ -503,7 +1147,7 @@ export const multiBranch = async (options: MultiBranchOptions) => {
 
     // Create detailed table
     const table = new Table({
-      head: ['Status', 'Owner', 'Branch', 'Files', 'Pushed', 'PR'],
+      head: ['Status', groupBySection ? 'Section' : 'Owner', 'Branch', 'Files', 'Pushed', 'PR'],
       colWidths: [10, 20, 40, 10, 10, 50],
       wordWrap: true,
     });
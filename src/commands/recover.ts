@@ -1,3 +1,4 @@
+import { existsSync } from "fs";
 import { log } from "../utils/logger";
 import {
   getIncompleteOperations,
@@ -5,7 +6,7 @@ import {
   deleteOperationState,
   type OperationStateData,
 } from "../utils/state";
-import { getCurrentBranch, checkout, deleteBranch, branchExists, restoreFilesFromBranch, hasUnstagedChanges, hasStagedChanges } from "../utils/git";
+import { getCurrentBranch, checkout, deleteBranch, branchExists, restoreFilesFromBranch, hasUnstagedChanges, hasStagedChanges, removeWorktree, restoreUnstagedChanges } from "../utils/git";
 import { select, confirm } from "@inquirer/prompts";
 
 export type RecoverOptions = {
@@ -105,12 +106,21 @@ export const performRecovery = async (
     log.info(`Already on original branch: ${state.originalBranch}`);
   }
 
+  // Remove the temporary worktrees left behind by --worktree
+  for (const branch of state.branches) {
+    if (branch.worktree && existsSync(branch.worktree)) {
+      log.info(`Removing worktree: ${branch.worktree}`);
+      await removeWorktree(branch.worktree);
+    }
+  }
+
   // Step 2: Restore files from committed branches before deleting them
+  // Branches built in a worktree never took the files out of the working directory
   if (!keepBranches && state.branches.length > 0) {
     log.info("\nRestoring files from branches...");
 
     for (const branch of state.branches) {
-      if (branch.committed && branch.files && branch.files.length > 0) {
+      if (branch.committed && !branch.worktree && branch.files && branch.files.length > 0) {
         try {
           const exists = await branchExists(branch.name);
           if (exists) {
@@ -130,6 +140,16 @@ export const performRecovery = async (
     }
   }
 
+  // Put back unstaged changes the checkout strategy had set aside
+  for (const branch of state.branches) {
+    if (branch.unstagedChanges && existsSync(branch.unstagedChanges.patch)) {
+      log.info(`Restoring unstaged changes set aside for ${branch.name}...`);
+      if (!(await restoreUnstagedChanges(branch.unstagedChanges))) {
+        hadWarnings = true;
+      }
+    }
+  }
+
   // Step 3: Handle created branches (delete or keep)
   if (!keepBranches && state.branches.length > 0) {
     log.info("\nCleaning up created branches...");
@@ -0,0 +1,168 @@
+import { readFileSync } from "fs";
+import path from "path";
+import chalk from "chalk";
+import {
+  getCodeowners,
+  getOwnership,
+  loadOwnershipProvider,
+} from "../utils/codeowners";
+import { getCommitHistory, getRepoRoot, getTrackedFiles } from "../utils/git";
+import { log, setSilent, outputJson } from "../utils/logger";
+import {
+  appendPatch,
+  buildFileHistory,
+  suggestOwners as suggestOwnerRules,
+  suggestionsToRules,
+} from "../utils/suggest-owners";
+import { getAuthorTeams, getTeamDirectory, teamLabel } from "../utils/teams";
+
+export type SuggestOwnersOptions = {
+  json?: boolean; // Output results as JSON
+  patch?: boolean; // Output a patch adding the rules to CODEOWNERS
+  since?: string; // Only consider commits more recent than this date
+  minConfidence?: string; // Minimum share of commits (0-1) to suggest an owner
+};
+
+// Number of files without a suggestion to list before truncating
+const MAX_UNRESOLVED = 20;
+
+export const suggestOwners = async (
+  options: SuggestOwnersOptions
+): Promise<void> => {
+  // The patch goes to stdout, so other output is suppressed until it is ready
+  if (options.json || options.patch) {
+    setSilent(true);
+  }
+
+  try {
+    if (options.json && options.patch) {
+      throw new Error("Cannot use both --json and --patch options");
+    }
+
+    const minConfidence =
+      options.minConfidence !== undefined ? Number(options.minConfidence) : 0.5;
+    if (Number.isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+      throw new Error(
+        `Invalid --min-confidence value "${options.minConfidence}" (expected 0-1)`
+      );
+    }
+
+    const directory = getTeamDirectory();
+    if (directory.teams.length === 0) {
+      throw new Error(
+        "No team directory found. Add .github/codeowners-teams.yml to map commit authors to teams"
+      );
+    }
+
+    const codeowners = getCodeowners();
+    await loadOwnershipProvider(codeowners);
+
+    // Files matched by a rule without owners are intentionally unowned
+    const files = await getTrackedFiles();
+    const unownedFiles = files.filter(
+      (file) => getOwnership(file).sections.length === 0
+    );
+
+    const history = buildFileHistory(
+      await getCommitHistory({ since: options.since }),
+      (author) => getAuthorTeams(author, directory).map((team) => team.name),
+      new Set(unownedFiles)
+    );
+    const { suggestions, unresolved } = suggestOwnerRules(
+      files,
+      unownedFiles,
+      history,
+      minConfidence
+    );
+
+    if (options.patch) {
+      setSilent(false);
+      const repoRoot = await getRepoRoot();
+      const rules = suggestionsToRules(suggestions, codeowners.dialect);
+      if (suggestions.length > 0) {
+        process.stdout.write(
+          codeowners.path
+            ? appendPatch(
+                path.relative(repoRoot, codeowners.path).replace(/\\/g, "/"),
+                readFileSync(codeowners.path, "utf-8"),
+                rules
+              )
+            : appendPatch(".github/CODEOWNERS", null, rules)
+        );
+      }
+      return;
+    }
+
+    if (options.json) {
+      outputJson({
+        command: "suggest-owners",
+        unownedFiles: unownedFiles.length,
+        suggestions,
+        unresolved,
+        rules:
+          suggestions.length > 0
+            ? suggestionsToRules(suggestions, codeowners.dialect).slice(1)
+            : [],
+        filters: {
+          since: options.since || null,
+          minConfidence,
+        },
+      });
+      return;
+    }
+
+    if (unownedFiles.length === 0) {
+      log.success("Every tracked file has an owner");
+      return;
+    }
+
+    log.info(
+      `Found ${unownedFiles.length} unowned file${unownedFiles.length === 1 ? "" : "s"}`
+    );
+
+    if (suggestions.length > 0) {
+      log.header("Suggested CODEOWNERS rules:");
+      log.formattedTable(
+        suggestions.map((s) => ({
+          Pattern: s.pattern,
+          Owner: teamLabel(s.owner),
+          Confidence: `${Math.round(s.confidence * 100)}%`,
+          Files: s.files.length,
+          Commits: s.commits,
+        })),
+        [
+          { name: "Pattern", width: 50, formatter: (value: string) => log.smartFile(value) },
+          { name: "Owner", width: 35, formatter: (value: string) => log.owner(value) },
+          { name: "Confidence", width: 12 },
+          { name: "Files", width: 8 },
+          { name: "Commits", width: 9 },
+        ]
+      );
+    }
+
+    if (unresolved.length > 0) {
+      log.header(`No confident suggestion (${unresolved.length}):`);
+      unresolved.slice(0, MAX_UNRESOLVED).forEach((file) => log.file(file));
+      if (unresolved.length > MAX_UNRESOLVED) {
+        console.log(
+          chalk.dim(`  ... and ${unresolved.length - MAX_UNRESOLVED} more (use --json for the full list)`)
+        );
+      }
+    }
+
+    if (suggestions.length > 0) {
+      console.log(
+        chalk.dim("\nTip: Apply the rules with: cg suggest-owners --patch | git apply")
+      );
+    }
+    console.log("");
+  } catch (err) {
+    if (options.json) {
+      outputJson({ command: "suggest-owners", error: String(err) });
+      process.exit(1);
+    }
+    setSilent(false);
+    log.error(`Suggest owners failed: ${err}`);
+    process.exit(1);
+  }
+};
@@ -0,0 +1,108 @@
+import { describe, expect, test, beforeEach, afterEach, mock } from "bun:test";
+
+const trackedFiles = [
+  "README.md",
+  "src/index.ts",
+  "src/utils/git.ts",
+  "packages/billing/index.ts",
+  "packages/billing/db/schema.sql",
+  "packages/lodash.merge/index.js",
+  "packages/web/app.tsx",
+];
+
+const owners: Record<string, string[]> = {
+  "src/index.ts": ["@org/core"],
+  "src/utils/git.ts": ["@org/core"],
+  "packages/billing/index.ts": ["@org/billing"],
+  "packages/billing/db/schema.sql": ["@org/billing", "@org/dba"],
+  "packages/lodash.merge/index.js": ["@org/web"],
+  "packages/web/app.tsx": ["@org/web"],
+};
+
+describe("who-owns command", () => {
+  beforeEach(() => {
+    mock.module("../utils/git", () => ({
+      getRepoRoot: mock(() => Promise.resolve(process.cwd())),
+      getTrackedFiles: mock(() => Promise.resolve(trackedFiles)),
+    }));
+
+    mock.module("../utils/codeowners", () => ({
+      resolveCodeowners: mock(() => Promise.resolve()),
+      getCodeowners: () => ({ path: null, root: process.cwd(), sections: [] }),
+      getOwnership: (file: string) => ({ owners: owners[file] ?? [], sections: [] }),
+    }));
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  const find = async (queries: string[]) => {
+    const { findOwners } = await import("./who-owns");
+    return findOwners(queries);
+  };
+
+  test("should report the owners of a file", async () => {
+    const [result] = await find(["src/index.ts"]);
+
+    expect(result).toEqual({
+      query: "src/index.ts",
+      path: "src/index.ts",
+      type: "file",
+      files: 1,
+      owners: [{ owner: "@org/core", files: 1, percentage: 100 }],
+      unowned: { files: 0, percentage: 0 },
+    });
+  });
+
+  test("should summarise a directory by owner", async () => {
+    const [result] = await find(["packages/billing"]);
+
+    expect(result.type).toBe("pattern");
+    expect(result.files).toBe(2);
+    expect(result.owners).toContainEqual({ owner: "@org/billing", files: 2, percentage: 100 });
+    expect(result.owners).toContainEqual({ owner: "@org/dba", files: 1, percentage: 50 });
+  });
+
+  test("should match directories named like files", async () => {
+    const [result] = await find(["packages/lodash.merge"]);
+
+    expect(result.files).toBe(1);
+    expect(result.owners).toEqual([{ owner: "@org/web", files: 1, percentage: 100 }]);
+  });
+
+  test("should resolve paths relative to the current directory", async () => {
+    const [result] = await find(["./src/../README.md"]);
+
+    expect(result.path).toBe("README.md");
+    expect(result.owners).toEqual([]);
+    expect(result.unowned).toEqual({ files: 1, percentage: 100 });
+  });
+
+  test("should summarise each directory matched by a glob", async () => {
+    const results = await find(["packages/*"]);
+
+    expect(results.map((r) => [r.query, r.path, r.files])).toEqual([
+      ["packages/*", "packages/billing", 2],
+      ["packages/*", "packages/lodash.merge", 1],
+      ["packages/*", "packages/web", 1],
+    ]);
+  });
+
+  test("should group files matched by a glob under the glob", async () => {
+    const results = await find(["**/*.ts"]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].path).toBe("**/*.ts");
+    expect(results[0].files).toBe(3);
+  });
+
+  test("should report queries without tracked files", async () => {
+    const results = await find(["docs", "docs/*"]);
+
+    expect(results.map((r) => [r.path, r.files])).toEqual([
+      ["docs", 0],
+      ["docs/*", 0],
+    ]);
+  });
+});
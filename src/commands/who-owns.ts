@@ -0,0 +1,222 @@
+import path from "path";
+import chalk from "chalk";
+import micromatch from "micromatch";
+import {
+  getCodeowners,
+  getOwnership,
+  resolveCodeowners,
+} from "../utils/codeowners";
+import { normalizeFilePath } from "../utils/codeowners-parser";
+import { computeCoverage } from "../utils/coverage";
+import { getRepoRoot, getTrackedFiles } from "../utils/git";
+import { log, setSilent, outputJson } from "../utils/logger";
+import { filterByPathPatterns } from "../utils/matcher";
+import { teamLabel } from "../utils/teams";
+
+export type WhoOwnsOptions = {
+  paths: string[]; // Paths, directories or micromatch globs
+  stdin?: boolean; // Also read paths from stdin, one per line
+  json?: boolean; // Output results as JSON
+  ownersRef?: string; // Git ref to read CODEOWNERS from
+};
+
+type OwnerShare = {
+  owner: string;
+  files: number;
+  percentage: number; // Share of the matched files owned by the owner (0-100)
+};
+
+export type WhoOwnsResult = {
+  query: string; // Path or glob as given
+  path: string; // Path from the repository root, or the glob
+  type: "file" | "pattern";
+  files: number; // Tracked files matched
+  owners: OwnerShare[];
+  unowned: { files: number; percentage: number };
+};
+
+const GLOB_CHARS = /[*?[\]{}!]/;
+
+const percentage = (count: number, total: number): number =>
+  total === 0 ? 0 : Math.round((count / total) * 10000) / 100;
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+};
+
+/**
+ * Convert a query to a path relative to the repository root.
+ * Plain paths are relative to the cwd, globs are matched from the root as is.
+ */
+const toRepoPath = (query: string, repoRoot: string): string => {
+  if (GLOB_CHARS.test(query)) return query;
+  return normalizeFilePath(path.relative(repoRoot, path.resolve(query))) || ".";
+};
+
+/**
+ * Split the files matched by a glob by the directory the glob matched, so
+ * `packages/*` gives one group per package. Files the glob matched
+ * themselves (`**\/*.sql`) are grouped under the glob.
+ */
+const groupByMatchedDirectory = (files: string[], glob: string): Map<string, string[]> => {
+  const groups = new Map<string, string[]>();
+  for (const file of files) {
+    const segments = file.split("/");
+    let key = glob;
+    for (let i = 1; i < segments.length; i++) {
+      const directory = segments.slice(0, i).join("/");
+      if (micromatch.isMatch(directory, glob, { dot: true })) {
+        key = directory;
+        break;
+      }
+    }
+    groups.set(key, [...(groups.get(key) ?? []), file]);
+  }
+  return groups;
+};
+
+/**
+ * Find the tracked files matching a path, directory or glob.
+ */
+const matchTrackedFiles = (
+  trackedFiles: string[],
+  tracked: Set<string>,
+  query: string
+): string[] => {
+  if (tracked.has(query)) return [query];
+
+  const files = filterByPathPatterns(trackedFiles, query);
+  // Directories that look like files (e.g. "packages/lodash.merge")
+  if (files.length === 0 && !GLOB_CHARS.test(query)) {
+    return filterByPathPatterns(trackedFiles, `${query}/`);
+  }
+  return files;
+};
+
+/**
+ * Summarise the owners of files: the share of the files each owner owns.
+ */
+const summarize = (
+  query: string,
+  repoPath: string,
+  files: string[],
+  type: WhoOwnsResult["type"]
+): WhoOwnsResult => {
+  const report = computeCoverage(getCodeowners(), files, 0, getOwnership);
+  return {
+    query,
+    path: repoPath,
+    type,
+    files: files.length,
+    owners: report.owners.map(({ owner, files: count }) => ({
+      owner,
+      files: count,
+      percentage: percentage(count, files.length),
+    })),
+    unowned: {
+      files: report.unownedFiles,
+      percentage: percentage(report.unownedFiles, files.length),
+    },
+  };
+};
+
+/**
+ * Resolve the owners of tracked paths, directories or globs: one result per
+ * path, and one per directory a glob matches.
+ */
+export const findOwners = async (queries: string[]): Promise<WhoOwnsResult[]> => {
+  const repoRoot = await getRepoRoot();
+  const trackedFiles = await getTrackedFiles();
+  const tracked = new Set(trackedFiles);
+
+  return queries.flatMap((query) => {
+    const repoPath = toRepoPath(query, repoRoot);
+    const files = matchTrackedFiles(trackedFiles, tracked, repoPath);
+
+    if (GLOB_CHARS.test(repoPath) && files.length > 0) {
+      return Array.from(groupByMatchedDirectory(files, repoPath)).map(([matched, group]) =>
+        summarize(query, matched, group, "pattern")
+      );
+    }
+    return [summarize(query, repoPath, files, tracked.has(repoPath) ? "file" : "pattern")];
+  });
+};
+
+export const whoOwns = async (options: WhoOwnsOptions): Promise<void> => {
+  if (options.json) {
+    setSilent(true);
+  }
+
+  try {
+    const queries = [...(options.paths ?? [])];
+    if (options.stdin) {
+      queries.push(
+        ...(await readStdin())
+          .split(/\r?\n/)
+          .map((line) => line.trim())
+          .filter(Boolean)
+      );
+    }
+    if (queries.length === 0) {
+      throw new Error("At least one path or glob is required");
+    }
+
+    // Resolve ownership from the CODEOWNERS at the PR base (or --owners-ref)
+    await resolveCodeowners({ ownersRef: options.ownersRef });
+
+    const results = await findOwners(queries);
+
+    if (options.json) {
+      outputJson({
+        command: "who-owns",
+        results,
+        filters: {
+          ownersRef: options.ownersRef || null,
+        },
+      });
+      return;
+    }
+
+    for (const result of results) {
+      if (result.files === 0) {
+        log.warn(`${result.query}: no tracked files match`);
+        continue;
+      }
+
+      if (result.type === "file") {
+        console.log(
+          `${chalk.bold(result.path)}: ${
+            result.owners.length > 0
+              ? result.owners.map((o) => log.owner(teamLabel(o.owner))).join(", ")
+              : chalk.yellow("unowned")
+          }`
+        );
+        continue;
+      }
+
+      log.header(`${result.path} (${result.files} file${result.files === 1 ? "" : "s"})`);
+      for (const share of result.owners) {
+        console.log(
+          `  ${`${share.percentage}%`.padStart(7)} ${log.owner(teamLabel(share.owner))} ${chalk.dim(`(${share.files})`)}`
+        );
+      }
+      if (result.unowned.files > 0) {
+        console.log(
+          `  ${`${result.unowned.percentage}%`.padStart(7)} ${chalk.yellow("unowned")} ${chalk.dim(`(${result.unowned.files})`)}`
+        );
+      }
+    }
+    console.log("");
+  } catch (err) {
+    if (options.json) {
+      outputJson({ command: "who-owns", error: String(err) });
+      process.exit(1);
+    }
+    log.error(`Who-owns failed: ${err}`);
+    process.exit(1);
+  }
+};
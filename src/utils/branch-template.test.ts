@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_BRANCH_TEMPLATE,
+  findBranchCollisions,
+  packageName,
+  renderBranchTemplate,
+  templatePlaceholders,
+} from "./branch-template";
+
+describe("renderBranchTemplate", () => {
+  const values = {
+    base: "feature",
+    owner: "@org/payments-api",
+    index: 2,
+    date: new Date(2026, 0, 5),
+    user: "jane.doe",
+    source: "feature/login",
+    package: "billing",
+  };
+
+  test("should keep the historical default branch names", () => {
+    expect(renderBranchTemplate(DEFAULT_BRANCH_TEMPLATE, values)).toBe("feature/org-payments-api");
+    expect(
+      renderBranchTemplate(DEFAULT_BRANCH_TEMPLATE, { ...values, owner: "user@example.com" })
+    ).toBe("feature/user@example-com");
+  });
+
+  test("should fill every placeholder", () => {
+    expect(renderBranchTemplate("{user}/{base}-{team}", values)).toBe("jane-doe/feature-payments-api");
+    expect(renderBranchTemplate("{org}/{owner}/{index}", values)).toBe("org/org/payments-api/2");
+    expect(renderBranchTemplate("{package}-{date}-{source}", values)).toBe(
+      "billing-2026-01-05-feature-login"
+    );
+  });
+
+  test("should split user and email owners", () => {
+    expect(renderBranchTemplate("{org}:{team}", { ...values, owner: "@alice" })).toBe(":alice");
+    expect(renderBranchTemplate("{team}", { ...values, owner: "bob@example.com" })).toBe("bob");
+  });
+
+  test("should reject unknown placeholders", () => {
+    expect(() => renderBranchTemplate("{base}/{ticket}", values)).toThrow(
+      'Unknown placeholder "{ticket}" in branch template'
+    );
+  });
+});
+
+describe("templatePlaceholders", () => {
+  test("should list the placeholders used once", () => {
+    expect(templatePlaceholders("{base}/{team}-{team}")).toEqual(["base", "team"]);
+    expect(templatePlaceholders("static")).toEqual([]);
+  });
+});
+
+describe("packageName", () => {
+  const packages = new Set(["packages/billing"]);
+  const isPackage = (directory: string) => packages.has(directory);
+
+  test("should use the nearest package above the common directory", () => {
+    expect(
+      packageName(["packages/billing/src/a.ts", "packages/billing/src/util/b.ts"], isPackage)
+    ).toBe("billing");
+  });
+
+  test("should fall back to the common directory or the root", () => {
+    expect(packageName(["docs/guide/a.md", "docs/api/b.md"], isPackage)).toBe("docs");
+    expect(packageName(["packages/billing/a.ts", "README.md"], isPackage)).toBe("root");
+    expect(packageName([], isPackage)).toBe("root");
+  });
+
+  test("should not treat a shared name prefix as a common directory", () => {
+    expect(packageName(["app/a.ts", "application/b.ts"], isPackage)).toBe("root");
+  });
+});
+
+describe("findBranchCollisions", () => {
+  test("should report branch names shared by several owners", () => {
+    const collisions = findBranchCollisions(
+      new Map([
+        ["@org/web", "feature/web"],
+        ["@other/web", "feature/web"],
+        ["@org/api", "feature/api"],
+      ])
+    );
+    expect(Array.from(collisions)).toEqual([["feature/web", ["@org/web", "@other/web"]]]);
+  });
+});
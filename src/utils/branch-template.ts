@@ -0,0 +1,144 @@
+import path from "path";
+
+/**
+ * Branch name templates for multi-branch, e.g. "{user}/{base}-{team}".
+ */
+
+export const DEFAULT_BRANCH_TEMPLATE = "{base}/{ownerSlug}";
+
+export const BRANCH_TEMPLATE_PLACEHOLDERS = [
+  "base", // --branch value
+  "owner", // Owner without the leading @, slashes kept (org/team)
+  "ownerSlug", // Owner as a single path segment (org-team)
+  "org", // Organization of a team owner, empty for users and emails
+  "team", // Team name, user name or the local part of an email
+  "package", // Package containing the branch's files
+  "date", // Current date (YYYY-MM-DD)
+  "user", // Git user (local part of user.email, or user.name)
+  "source", // --source ref, or the current branch
+  "index", // Position of the branch, starting at 1
+] as const;
+
+export type BranchTemplatePlaceholder = (typeof BRANCH_TEMPLATE_PLACEHOLDERS)[number];
+
+export type BranchTemplateValues = {
+  base: string;
+  owner: string;
+  index: number;
+  date?: Date; // Defaults to now
+  user?: string;
+  source?: string;
+  package?: string;
+};
+
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+/**
+ * Replace characters that are not safe in a branch name segment.
+ * @example slugify("@org/team name") => "@org-team-name"
+ */
+export const slugify = (value: string): string =>
+  value.replace(/[^a-zA-Z0-9-_@]/g, "-");
+
+const formatDate = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+/**
+ * Split an owner into organization and team.
+ * @example ownerParts("@org/team") => { org: "org", team: "team" }
+ * @example ownerParts("user@example.com") => { org: "", team: "user" }
+ */
+export const ownerParts = (owner: string): { org: string; team: string } => {
+  const teamMatch = owner.match(/^@([^/]+)\/(.+)$/);
+  if (teamMatch) return { org: teamMatch[1], team: teamMatch[2] };
+  if (owner.startsWith("@")) return { org: "", team: owner.slice(1) };
+  return { org: "", team: owner.split("@")[0] };
+};
+
+/**
+ * Get the placeholders used in a template, rejecting unknown ones.
+ */
+export const templatePlaceholders = (template: string): BranchTemplatePlaceholder[] => {
+  const used = new Set<BranchTemplatePlaceholder>();
+  for (const [, name] of template.matchAll(PLACEHOLDER)) {
+    if (!BRANCH_TEMPLATE_PLACEHOLDERS.includes(name as BranchTemplatePlaceholder)) {
+      throw new Error(
+        `Unknown placeholder "{${name}}" in branch template (supported: ${BRANCH_TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")})`
+      );
+    }
+    used.add(name as BranchTemplatePlaceholder);
+  }
+  return Array.from(used);
+};
+
+/**
+ * Render a branch name from a template.
+ * @example renderBranchTemplate("{base}/{ownerSlug}", { base: "feature", owner: "@org/team", index: 1 }) => "feature/org-team"
+ */
+export const renderBranchTemplate = (
+  template: string,
+  values: BranchTemplateValues
+): string => {
+  templatePlaceholders(template);
+  const { org, team } = ownerParts(values.owner);
+
+  const replacements: Record<BranchTemplatePlaceholder, () => string> = {
+    base: () => values.base,
+    owner: () => values.owner.replace(/^@/, "").replace(/[^a-zA-Z0-9-_@/]/g, "-"),
+    ownerSlug: () => slugify(values.owner).replace(/^@/, ""),
+    org: () => slugify(org),
+    team: () => slugify(team),
+    package: () => slugify(values.package ?? ""),
+    date: () => formatDate(values.date ?? new Date()),
+    user: () => slugify(values.user ?? ""),
+    source: () => slugify(values.source ?? ""),
+    index: () => String(values.index),
+  };
+
+  return template.replace(PLACEHOLDER, (_, name: BranchTemplatePlaceholder) =>
+    replacements[name]()
+  );
+};
+
+/**
+ * Name the package containing a set of files: the nearest directory above
+ * their common directory that has a package.json, or the common directory
+ * itself. Files at the repository root belong to "root".
+ */
+export const packageName = (
+  files: string[],
+  isPackage: (directory: string) => boolean
+): string => {
+  if (files.length === 0) return "root";
+
+  let common = path.posix.dirname(files[0]);
+  for (const file of files.slice(1)) {
+    while (common !== "." && !file.startsWith(`${common}/`)) {
+      common = path.posix.dirname(common);
+    }
+  }
+  if (common === ".") return "root";
+
+  for (let directory = common; directory !== "."; directory = path.posix.dirname(directory)) {
+    if (isPackage(directory)) return path.posix.basename(directory);
+  }
+  return path.posix.basename(common);
+};
+
+/**
+ * Find branch names used by more than one owner.
+ * @returns Branch name → owners, for the colliding names only
+ */
+export const findBranchCollisions = (
+  branchNames: Map<string, string>
+): Map<string, string[]> => {
+  const owners = new Map<string, string[]>();
+  for (const [owner, branchName] of branchNames) {
+    owners.set(branchName, [...(owners.get(branchName) ?? []), owner]);
+  }
+  return new Map(Array.from(owners).filter(([, names]) => names.length > 1));
+};
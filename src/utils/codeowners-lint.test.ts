@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import { parseCodeowners } from "./codeowners-parser";
+import { lintCodeowners, isValidOwner, toSarif } from "./codeowners-lint";
+
+const trackedFiles = [
+  "README.md",
+  "docs/guide.md",
+  "src/index.ts",
+  "src/utils/helpers.ts",
+  "packages/billing/api.ts",
+];
+
+const lint = (content: string) => lintCodeowners(parseCodeowners(content), trackedFiles);
+
+describe("isValidOwner", () => {
+  test("should accept users, teams and emails", () => {
+    expect(isValidOwner("@octocat")).toBe(true);
+    expect(isValidOwner("@my-org/platform_team")).toBe(true);
+    expect(isValidOwner("dev@example.com")).toBe(true);
+  });
+
+  test("should reject malformed owners", () => {
+    expect(isValidOwner("octocat")).toBe(false);
+    expect(isValidOwner("@")).toBe(false);
+    expect(isValidOwner("@-octocat")).toBe(false);
+    expect(isValidOwner("@org/")).toBe(false);
+    expect(isValidOwner("@org/team/extra")).toBe(false);
+  });
+});
+
+describe("lintCodeowners", () => {
+  test("should report no issues for a clean file", () => {
+    expect(lint("* @org/default\n/src/ @org/core")).toEqual([]);
+  });
+
+  test("should report syntax errors", () => {
+    const issues = lint("* @org/default\n!docs/ @org/docs");
+    expect(issues).toEqual([
+      expect.objectContaining({ ruleId: "syntax-error", severity: "error", line: 2 }),
+    ]);
+  });
+
+  test("should report invalid owners", () => {
+    const issues = lint("* @org/default not-an-owner");
+    expect(issues).toHaveLength(1);
+    expect(issues[0].ruleId).toBe("invalid-owner");
+    expect(issues[0].message).toContain("not-an-owner");
+  });
+
+  test("should report patterns that match no tracked file", () => {
+    const issues = lint("* @org/default\n/legacy/ @org/legacy");
+    expect(issues).toEqual([
+      expect.objectContaining({ ruleId: "unmatched-pattern", severity: "warning", line: 2 }),
+    ]);
+  });
+
+  test("should report rules fully shadowed by later rules", () => {
+    const issues = lint("/src/utils/ @org/utils\n/src/ @org/core\n* @org/default");
+    expect(issues.map((i) => [i.ruleId, i.line])).toEqual([
+      ["shadowed-rule", 1],
+      ["shadowed-rule", 2],
+    ]);
+  });
+
+  test("should not report partially shadowed rules", () => {
+    expect(lint("/src/ @org/core\n/src/utils/ @org/utils")).toEqual([]);
+  });
+
+  test("should report duplicate rules once", () => {
+    const issues = lint("/src/ @org/core\n/src/ @org/other");
+    expect(issues).toEqual([
+      expect.objectContaining({ ruleId: "duplicate-rule", line: 1 }),
+    ]);
+    expect(issues[0].message).toContain("line 2");
+  });
+});
+
+describe("lintCodeowners (GitLab)", () => {
+  test("should accept nested groups and roles", () => {
+    expect(isValidOwner("@group/sub/team", "gitlab")).toBe(true);
+    expect(isValidOwner("@@maintainer", "gitlab")).toBe(true);
+    expect(isValidOwner("@@maintainer")).toBe(false);
+  });
+
+  test("should check section default owners on the header line", () => {
+    const issues = lint("[Docs] bad-owner\ndocs/\nREADME.md");
+    expect(issues).toEqual([
+      expect.objectContaining({ ruleId: "invalid-owner", line: 1 }),
+    ]);
+  });
+
+  test("should only report shadowing within a section", () => {
+    const content = [
+      "[Core] @org/core",
+      "/src/utils/",
+      "/src/",
+      "[Utils] @org/utils",
+      "/src/utils/",
+    ].join("\n");
+    const issues = lint(content);
+    expect(issues.map((i) => [i.ruleId, i.line])).toEqual([["shadowed-rule", 2]]);
+  });
+
+  test("should not report exclusions as shadowed", () => {
+    expect(lint("[Docs] @org/docs\n/docs/\n!/docs/guide.md")).toEqual([]);
+  });
+});
+
+describe("toSarif", () => {
+  test("should produce a SARIF log with locations", () => {
+    const issues = lint("* @org/default bad-owner");
+    const sarif = toSarif(issues, ".github/CODEOWNERS", "1.0.0");
+
+    expect(sarif.version).toBe("2.1.0");
+    expect(sarif.runs[0].tool.driver.name).toBe("codeowners-git");
+    expect(sarif.runs[0].results).toEqual([
+      {
+        ruleId: "invalid-owner",
+        level: "error",
+        message: { text: issues[0].message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: ".github/CODEOWNERS" },
+              region: { startLine: 1 },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import type { CodeownersFile } from "./codeowners";
+import {
+  patternToRegExp,
+  type CodeownersDialect,
+  type CodeownersRule,
+} from "./codeowners-parser";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRuleId =
+  | "syntax-error"
+  | "invalid-owner"
+  | "unmatched-pattern"
+  | "shadowed-rule"
+  | "duplicate-rule";
+
+export type LintIssue = {
+  ruleId: LintRuleId;
+  severity: LintSeverity;
+  line: number;
+  message: string;
+};
+
+export const LINT_RULES: Record<
+  LintRuleId,
+  { severity: LintSeverity; description: string }
+> = {
+  "syntax-error": {
+    severity: "error",
+    description: "Line uses syntax that GitHub does not support and is ignored",
+  },
+  "invalid-owner": {
+    severity: "error",
+    description: "Owner is not a valid @username, @org/team or email address",
+  },
+  "unmatched-pattern": {
+    severity: "warning",
+    description: "Pattern does not match any tracked file",
+  },
+  "shadowed-rule": {
+    severity: "warning",
+    description: "Every file matched by this rule is claimed by a later rule",
+  },
+  "duplicate-rule": {
+    severity: "warning",
+    description: "Pattern is repeated later in the file, so this rule never applies",
+  },
+};
+
+const USERNAME_OWNER = /^@[A-Za-z0-9](?:[A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/;
+const TEAM_OWNER = /^@[A-Za-z0-9][A-Za-z0-9-]*\/[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const EMAIL_OWNER = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+// GitLab allows nested groups (@group/subgroup/team) and roles (@@developer)
+const GITLAB_GROUP_OWNER = /^@[A-Za-z0-9][A-Za-z0-9._-]*(?:\/[A-Za-z0-9][A-Za-z0-9._-]*)+$/;
+const GITLAB_ROLE_OWNER = /^@@(?:developer|maintainer|owner)s?$/;
+
+/**
+ * Check whether an owner token is a valid username, team or email.
+ */
+export const isValidOwner = (
+  owner: string,
+  dialect: CodeownersDialect = "github"
+): boolean => {
+  if (USERNAME_OWNER.test(owner) || TEAM_OWNER.test(owner) || EMAIL_OWNER.test(owner)) {
+    return true;
+  }
+  return (
+    dialect === "gitlab" &&
+    (GITLAB_GROUP_OWNER.test(owner) || GITLAB_ROLE_OWNER.test(owner))
+  );
+};
+
+const issue = (ruleId: LintRuleId, line: number, message: string): LintIssue => ({
+  ruleId,
+  severity: LINT_RULES[ruleId].severity,
+  line,
+  message,
+});
+
+/**
+ * Lint a parsed CODEOWNERS file against the list of tracked files.
+ * Issues are returned sorted by line number.
+ */
+export const lintCodeowners = (
+  codeowners: Pick<CodeownersFile, "rules" | "errors"> &
+    Partial<Pick<CodeownersFile, "dialect" | "sections">>,
+  trackedFiles: string[]
+): LintIssue[] => {
+  const { rules, errors } = codeowners;
+  const dialect = codeowners.dialect ?? "github";
+  const issues: LintIssue[] = [];
+
+  for (const error of errors) {
+    issues.push(issue("syntax-error", error.line, error.message));
+  }
+
+  const checkOwners = (owners: string[], line: number) => {
+    for (const owner of owners) {
+      if (!isValidOwner(owner, dialect)) {
+        issues.push(
+          issue(
+            "invalid-owner",
+            line,
+            `Invalid owner "${owner}": owners must be @username, @org/team or an email address`
+          )
+        );
+      }
+    }
+  };
+
+  for (const section of codeowners.sections ?? []) {
+    checkOwners(section.defaultOwners, section.line);
+  }
+  for (const rule of rules) {
+    // Owners inherited from a section header are checked on the header line
+    if (!rule.defaultOwners) {
+      checkOwners(rule.owners, rule.line);
+    }
+  }
+
+  // Rules only compete with other rules in the same (GitLab) section
+  const ruleKey = (rule: CodeownersRule) =>
+    `${rule.section ?? ""}\0${rule.negated ? "!" : ""}${rule.pattern}`;
+
+  // Duplicate patterns: every occurrence except the last one never applies
+  const lastOccurrence = new Map<string, CodeownersRule>();
+  for (const rule of rules) {
+    lastOccurrence.set(ruleKey(rule), rule);
+  }
+  const duplicates = new Set<CodeownersRule>();
+  for (const rule of rules) {
+    const last = lastOccurrence.get(ruleKey(rule));
+    if (last && last !== rule) {
+      duplicates.add(rule);
+      issues.push(
+        issue(
+          "duplicate-rule",
+          rule.line,
+          `Pattern "${rule.pattern}" is repeated on line ${last.line}, which overrides this rule`
+        )
+      );
+    }
+  }
+
+  // Count how many tracked files each rule matches and how many it wins
+  const matchCounts = new Array<number>(rules.length).fill(0);
+  const winCounts = new Array<number>(rules.length).fill(0);
+  const regExps = rules.map((rule) => patternToRegExp(rule.pattern));
+
+  for (const file of trackedFiles) {
+    const sectionsWon = new Set<string | undefined>();
+    for (let i = rules.length - 1; i >= 0; i--) {
+      if (regExps[i].test(file)) {
+        matchCounts[i]++;
+        if (!rules[i].negated && !sectionsWon.has(rules[i].section)) {
+          winCounts[i]++;
+          sectionsWon.add(rules[i].section);
+        }
+      }
+    }
+  }
+
+  rules.forEach((rule, i) => {
+    if (matchCounts[i] === 0) {
+      issues.push(
+        issue(
+          "unmatched-pattern",
+          rule.line,
+          `Pattern "${rule.pattern}" does not match any tracked file`
+        )
+      );
+    } else if (winCounts[i] === 0 && !rule.negated && !duplicates.has(rule)) {
+      issues.push(
+        issue(
+          "shadowed-rule",
+          rule.line,
+          `Rule "${rule.pattern}" is fully shadowed: every matching file (${matchCounts[i]}) is owned by a later rule`
+        )
+      );
+    }
+  });
+
+  return issues.sort((a, b) => a.line - b.line);
+};
+
+/**
+ * Convert lint issues to a SARIF 2.1.0 log, for code scanning integrations.
+ */
+export const toSarif = (
+  issues: LintIssue[],
+  codeownersPath: string,
+  toolVersion: string
+) => ({
+  $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+  version: "2.1.0",
+  runs: [
+    {
+      tool: {
+        driver: {
+          name: "codeowners-git",
+          version: toolVersion,
+          informationUri: "https://github.com/hemandev/codeowners-git",
+          rules: Object.entries(LINT_RULES).map(([id, rule]) => ({
+            id,
+            shortDescription: { text: rule.description },
+            defaultConfiguration: { level: rule.severity },
+          })),
+        },
+      },
+      results: issues.map((i) => ({
+        ruleId: i.ruleId,
+        level: i.severity,
+        message: { text: i.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: codeownersPath },
+              region: { startLine: i.line },
+            },
+          },
+        ],
+      })),
+    },
+  ],
+});
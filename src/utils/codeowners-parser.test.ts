@@ -0,0 +1,206 @@
+import { describe, expect, test } from "bun:test";
+import {
+  parseCodeowners,
+  patternToRegExp,
+  findMatchingRules,
+  findOwningRule,
+  detectDialect,
+  resolveOwnership,
+  patternSpecificity,
+} from "./codeowners-parser";
+
+const matches = (pattern: string, file: string) =>
+  patternToRegExp(pattern).test(file);
+
+describe("parseCodeowners", () => {
+  test("should parse rules with line numbers", () => {
+    const { rules, errors } = parseCodeowners(
+      ["# Comment", "", "*       @org/default", "/docs/  @org/docs @alice"].join("\n")
+    );
+
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { line: 3, pattern: "*", owners: ["@org/default"], raw: "*       @org/default" },
+      { line: 4, pattern: "/docs/", owners: ["@org/docs", "@alice"], raw: "/docs/  @org/docs @alice" },
+    ]);
+  });
+
+  test("should strip inline comments", () => {
+    const { rules } = parseCodeowners("*.js @js-owner # inline comment");
+    expect(rules[0].owners).toEqual(["@js-owner"]);
+  });
+
+  test("should support escaped characters in patterns", () => {
+    const { rules } = parseCodeowners("\\#file.md @owner\npath\\ with\\ spaces/ @owner");
+    expect(rules[0].pattern).toBe("#file.md");
+    expect(rules[1].pattern).toBe("path with spaces/");
+  });
+
+  test("should keep rules without owners", () => {
+    const { rules } = parseCodeowners("/generated/");
+    expect(rules[0].owners).toEqual([]);
+  });
+
+  test("should report unsupported syntax and skip the line", () => {
+    const { rules, errors } = parseCodeowners("!*.md @owner\n*.[ch] @owner\n*.ts @owner");
+
+    expect(rules.map((r) => r.pattern)).toEqual(["*.ts"]);
+    expect(errors.map((e) => e.line)).toEqual([1, 2]);
+    expect(errors[0].message).toContain("Negated patterns");
+    expect(errors[1].message).toContain("Character ranges");
+  });
+
+  test("should handle CRLF line endings", () => {
+    const { rules } = parseCodeowners("*.js @a\r\n*.ts @b\r\n");
+    expect(rules.map((r) => r.line)).toEqual([1, 2]);
+  });
+});
+
+describe("patternToRegExp", () => {
+  test("should match everything with *", () => {
+    expect(matches("*", "README.md")).toBe(true);
+    expect(matches("*", "src/deep/file.ts")).toBe(true);
+  });
+
+  test("should match extensions at any depth", () => {
+    expect(matches("*.js", "index.js")).toBe(true);
+    expect(matches("*.js", "src/app/index.js")).toBe(true);
+    expect(matches("*.js", "src/app/index.ts")).toBe(false);
+  });
+
+  test("should anchor patterns with a leading slash", () => {
+    expect(matches("/docs/", "docs/guide.md")).toBe(true);
+    expect(matches("/docs/", "src/docs/guide.md")).toBe(false);
+  });
+
+  test("should match unanchored directories at any depth", () => {
+    expect(matches("apps/", "apps/web/index.ts")).toBe(true);
+    expect(matches("apps/", "packages/apps/web/index.ts")).toBe(true);
+  });
+
+  test("should anchor patterns containing an inner slash", () => {
+    expect(matches("packages/billing", "packages/billing/api.ts")).toBe(true);
+    expect(matches("packages/billing", "libs/packages/billing/api.ts")).toBe(false);
+  });
+
+  test("should only match direct children for a trailing /*", () => {
+    expect(matches("docs/*", "docs/getting-started.md")).toBe(true);
+    expect(matches("docs/*", "docs/build-app/troubleshooting.md")).toBe(false);
+  });
+
+  test("should match any directory depth with **", () => {
+    expect(matches("**/logs", "logs/a.log")).toBe(true);
+    expect(matches("**/logs", "build/logs/a.log")).toBe(true);
+    expect(matches("/src/**/test.ts", "src/test.ts")).toBe(true);
+    expect(matches("/src/**/test.ts", "src/a/b/test.ts")).toBe(true);
+    expect(matches("/build/**", "build/a/b.txt")).toBe(true);
+  });
+
+  test("should match single characters with ?", () => {
+    expect(matches("file?.txt", "file1.txt")).toBe(true);
+    expect(matches("file?.txt", "file10.txt")).toBe(false);
+  });
+
+  test("should escape regex characters", () => {
+    expect(matches("a+b.txt", "a+b.txt")).toBe(true);
+    expect(matches("a+b.txt", "aab.txt")).toBe(false);
+  });
+});
+
+describe("patternSpecificity", () => {
+  test("should rank literal paths above globs", () => {
+    const ranked = ["/src/billing/", "*", "/src/*.ts", "*.ts", "/src/"].sort(
+      (a, b) => patternSpecificity(a) - patternSpecificity(b)
+    );
+    expect(ranked).toEqual(["*", "*.ts", "/src/", "/src/*.ts", "/src/billing/"]);
+  });
+});
+
+describe("rule resolution", () => {
+  const { rules } = parseCodeowners(
+    [
+      "*                @org/default",
+      "*.ts             @org/typescript",
+      "/packages/       @org/packages",
+      "/packages/billing/ @org/billing @alice",
+    ].join("\n")
+  );
+
+  test("should return all matching rules in file order", () => {
+    const matching = findMatchingRules(rules, "packages/billing/api.ts");
+    expect(matching.map((r) => r.line)).toEqual([1, 2, 3, 4]);
+  });
+
+  test("should pick the last matching rule", () => {
+    expect(findOwningRule(rules, "packages/billing/api.ts")?.owners).toEqual([
+      "@org/billing",
+      "@alice",
+    ]);
+    expect(findOwningRule(rules, "packages/core/index.ts")?.line).toBe(3);
+    expect(findOwningRule(rules, "src/index.ts")?.line).toBe(2);
+    expect(findOwningRule(rules, "README.md")?.line).toBe(1);
+  });
+
+  test("should return null when no rule matches", () => {
+    const { rules: docsOnly } = parseCodeowners("/docs/ @org/docs");
+    expect(findOwningRule(docsOnly, "src/index.ts")).toBeNull();
+  });
+});
+
+describe("GitLab dialect", () => {
+  const content = [
+    "* @org/default",
+    "",
+    "[Docs] @org/docs",
+    "/docs/",
+    "/docs/api/ @org/api-docs",
+    "",
+    "^[Security][2] @org/security",
+    "*.ts",
+    "!/src/generated/",
+    "",
+    "[docs]",
+    "README.md",
+  ].join("\n");
+  const parsed = parseCodeowners(content);
+
+  test("should detect the dialect from section headers or path", () => {
+    expect(detectDialect(content)).toBe("gitlab");
+    expect(detectDialect("* @org/default")).toBe("github");
+    expect(detectDialect("* @org/default", ".gitlab/CODEOWNERS")).toBe("gitlab");
+  });
+
+  test("should parse sections with optional flag, approvals and default owners", () => {
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.sections).toEqual([
+      { name: "Docs", line: 3, optional: false, approvals: 1, defaultOwners: ["@org/docs"] },
+      { name: "Security", line: 7, optional: true, approvals: 2, defaultOwners: ["@org/security"] },
+    ]);
+  });
+
+  test("should inherit section default owners and merge repeated sections", () => {
+    const readme = parsed.rules.find((r) => r.pattern === "README.md");
+    expect(readme).toMatchObject({ section: "Docs", owners: ["@org/docs"], defaultOwners: true });
+    const exclusion = parsed.rules.find((r) => r.line === 9);
+    expect(exclusion).toMatchObject({ pattern: "/src/generated/", negated: true });
+  });
+
+  test("should resolve owners per section", () => {
+    const resolution = resolveOwnership(parsed, "docs/api/index.ts");
+    expect(resolution.sections.map((s) => [s.section, s.rule.line])).toEqual([
+      [null, 1],
+      ["Docs", 5],
+      ["Security", 8],
+    ]);
+    expect(resolution.owners).toEqual(["@org/default", "@org/api-docs", "@org/security"]);
+  });
+
+  test("should skip sections with a matching exclusion", () => {
+    const resolution = resolveOwnership(parsed, "src/generated/client.ts");
+    expect(resolution.owners).toEqual(["@org/default"]);
+  });
+
+  test("should reject exclusions in the GitHub dialect", () => {
+    expect(parseCodeowners("!/docs/ @org/docs", "github").errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * CODEOWNERS rule parser and matcher.
+ *
+ * Unlike the `codeowners` package this keeps the source position of every rule,
+ * so commands can explain which line of CODEOWNERS assigned a file to an owner.
+ * Matching follows GitHub's documented semantics: gitignore-style patterns where
+ * the last matching rule wins.
+ *
+ * The GitLab dialect adds `[Section]` headers (optionally `^[Optional]`, with an
+ * approval count `[Section][2]` and default owners). Each section resolves its
+ * own last matching rule, and a file is owned by the owners of every section.
+ */
+
+export type CodeownersDialect = "github" | "gitlab";
+
+export type CodeownersRule = {
+  line: number; // 1-based line number in the CODEOWNERS file
+  pattern: string;
+  owners: string[];
+  raw: string; // Original line, without trailing whitespace
+  section?: string; // GitLab section name, unset outside of sections
+  defaultOwners?: boolean; // Owners were inherited from the GitLab section header
+  negated?: boolean; // GitLab exclusion pattern (`!path`)
+  source?: string; // File the rule comes from when it is not CODEOWNERS (e.g. a nested OWNERS file)
+};
+
+export type CodeownersSection = {
+  name: string;
+  line: number; // Line of the first header for this section
+  optional: boolean; // `^[Section]`: approval is not required
+  approvals: number; // `[Section][2]`: number of required approvals
+  defaultOwners: string[]; // Owners for entries in the section without owners
+};
+
+export type CodeownersParseError = {
+  line: number;
+  message: string;
+  raw: string;
+};
+
+export type ParsedCodeowners = {
+  dialect: CodeownersDialect;
+  rules: CodeownersRule[];
+  sections: CodeownersSection[];
+  errors: CodeownersParseError[];
+};
+
+export type SectionMatch = {
+  section: string | null; // null for rules outside of any section
+  optional: boolean;
+  approvals: number;
+  owners: string[];
+  rule: CodeownersRule; // Winning rule in this section (last match)
+  overridden: CodeownersRule[]; // Earlier rules in this section that also matched
+};
+
+export type OwnershipResolution = {
+  owners: string[]; // Union of the owners of every matching section
+  sections: SectionMatch[];
+};
+
+const SECTION_HEADER = /^(\^)?\[([^\]]+)\](?:\[(\d+)\])?(.*)$/;
+
+/**
+ * Split a CODEOWNERS line into whitespace separated tokens.
+ * Supports `\ ` escapes inside patterns and strips inline `#` comments.
+ */
+const tokenize = (line: string): string[] => {
+  const tokens: string[] = [];
+  let current = "";
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === "\\" && i + 1 < line.length) {
+      current += line[i + 1];
+      i++;
+      continue;
+    }
+
+    // An unescaped # starts a comment
+    if (char === "#") {
+      break;
+    }
+
+    if (char === " " || char === "\t") {
+      if (current) {
+        tokens.push(current);
+        current = "";
+      }
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (current) {
+    tokens.push(current);
+  }
+
+  return tokens;
+};
+
+/**
+ * Return a reason why the pattern is rejected, or null if it is valid.
+ */
+const validatePattern = (
+  pattern: string,
+  dialect: CodeownersDialect
+): string | null => {
+  if (pattern.startsWith("!") && dialect === "github") {
+    return "Negated patterns are not supported in CODEOWNERS";
+  }
+  if (/\[.*\]/.test(pattern)) {
+    return "Character ranges ([...]) are not supported in CODEOWNERS";
+  }
+  return null;
+};
+
+/**
+ * Detect the CODEOWNERS dialect: GitLab if the file lives in `.gitlab/` or
+ * uses section headers, GitHub otherwise.
+ */
+export const detectDialect = (
+  content: string,
+  filePath?: string
+): CodeownersDialect => {
+  if (filePath && /(^|[\\/])\.gitlab[\\/]/.test(filePath)) {
+    return "gitlab";
+  }
+  const hasSections = content
+    .split(/\r\n|\r|\n/)
+    .some((line) => SECTION_HEADER.test(line.trim()));
+  return hasSections ? "gitlab" : "github";
+};
+
+/**
+ * Parse the contents of a CODEOWNERS file into rules with line numbers.
+ * Invalid lines are reported in `errors` and skipped, as GitHub does.
+ * The dialect is detected from the content when not given.
+ */
+export const parseCodeowners = (
+  content: string,
+  dialect: CodeownersDialect = detectDialect(content)
+): ParsedCodeowners => {
+  const rules: CodeownersRule[] = [];
+  const sections: CodeownersSection[] = [];
+  const errors: CodeownersParseError[] = [];
+  const lines = content.split(/\r\n|\r|\n/);
+  let currentSection: CodeownersSection | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const raw = rawLine.trimEnd();
+    const trimmed = raw.trim();
+    const line = index + 1;
+
+    if (!trimmed || trimmed.startsWith("#")) {
+      return;
+    }
+
+    const header = dialect === "gitlab" ? trimmed.match(SECTION_HEADER) : null;
+    if (header) {
+      const [, optional, name, approvals, rest] = header;
+      const sectionName = name.trim();
+
+      // Sections with the same name (case-insensitive) are combined
+      const existing = sections.find(
+        (section) => section.name.toLowerCase() === sectionName.toLowerCase()
+      );
+      const defaultOwners = tokenize(rest);
+
+      if (existing) {
+        if (defaultOwners.length > 0) existing.defaultOwners = defaultOwners;
+        currentSection = existing;
+      } else {
+        currentSection = {
+          name: sectionName,
+          line,
+          optional: !!optional,
+          approvals: approvals ? Number.parseInt(approvals, 10) : 1,
+          defaultOwners,
+        };
+        sections.push(currentSection);
+      }
+      return;
+    }
+
+    const [pattern, ...owners] = tokenize(trimmed);
+    if (!pattern) {
+      return;
+    }
+
+    const patternError = validatePattern(pattern, dialect);
+    if (patternError) {
+      errors.push({ line, message: patternError, raw });
+      return;
+    }
+
+    const rule: CodeownersRule = { line, pattern, owners, raw };
+    if (currentSection) {
+      rule.section = currentSection.name;
+      if (owners.length === 0) {
+        rule.owners = currentSection.defaultOwners;
+        rule.defaultOwners = true;
+      }
+    }
+    if (pattern.startsWith("!")) {
+      rule.pattern = pattern.slice(1);
+      rule.negated = true;
+    }
+    rules.push(rule);
+  });
+
+  return { dialect, rules, sections, errors };
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Convert a single path segment glob into a regular expression fragment.
+ */
+const segmentToRegExp = (segment: string): string => {
+  let result = "";
+  for (const char of segment) {
+    if (char === "*") {
+      result += "[^/]*";
+    } else if (char === "?") {
+      result += "[^/]";
+    } else {
+      result += escapeRegExp(char);
+    }
+  }
+  return result;
+};
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Compile a CODEOWNERS pattern into a regular expression matched against
+ * repository-relative file paths.
+ *
+ * - A leading or inner `/` anchors the pattern to the repository root,
+ *   otherwise it matches at any depth.
+ * - A pattern that matches a directory matches everything below it,
+ *   except when the last segment is a bare `*` (`docs/*` only matches
+ *   direct children of `docs`).
+ */
+export const patternToRegExp = (pattern: string): RegExp => {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
+
+  let body = pattern;
+  const directoryOnly = body.endsWith("/");
+  body = body.replace(/\/+$/, "");
+
+  const anchored = body.startsWith("/") || body.includes("/");
+  body = body.replace(/^\/+/, "");
+
+  const segments = body.split("/");
+  let source = "";
+
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+
+    if (segment === "**") {
+      // `**` as the last segment matches everything below; elsewhere it
+      // matches zero or more directories
+      source += isLast ? ".*" : "(?:[^/]+/)*";
+      return;
+    }
+
+    source += segmentToRegExp(segment);
+    if (!isLast) {
+      source += "/";
+    }
+  });
+
+  const prefix = anchored ? "" : "(?:.*/)?";
+  const lastSegment = segments[segments.length - 1];
+  let suffix: string;
+  if (directoryOnly) {
+    suffix = "/.*";
+  } else if (lastSegment === "*" && segments.length > 1) {
+    suffix = "";
+  } else {
+    suffix = "(?:/.*)?";
+  }
+
+  const regExp = new RegExp(`^${prefix}${source}${suffix}$`);
+  compiledPatterns.set(pattern, regExp);
+  return regExp;
+};
+
+/**
+ * Score how specific a pattern is, to break ties between rules that match the
+ * same file: every literal path segment outweighs any glob segment, and globs
+ * with more literal characters score higher.
+ * @example `*` (0) < `*.ts` (3) < `/src/` (100) < `/src/*.ts` (103) < `/src/billing/` (200)
+ */
+export const patternSpecificity = (pattern: string): number =>
+  pattern
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .reduce((score, segment) => {
+      if (!/[*?]/.test(segment)) return score + 100;
+      return score + Math.min(segment.replace(/[*?]/g, "").length, 99);
+    }, 0);
+
+/**
+ * Normalize a file path for matching: forward slashes, no leading `./` or `/`.
+ */
+export const normalizeFilePath = (filePath: string): string =>
+  filePath.replace(/\\/g, "/").replace(/^\.\//, "").replace(/^\/+/, "");
+
+/**
+ * Check whether a single rule matches a file path.
+ */
+export const ruleMatches = (rule: CodeownersRule, filePath: string): boolean =>
+  patternToRegExp(rule.pattern).test(normalizeFilePath(filePath));
+
+/**
+ * Return every rule matching a file path, in file order.
+ * The last element is the winning rule (last match wins).
+ */
+export const findMatchingRules = (
+  rules: CodeownersRule[],
+  filePath: string
+): CodeownersRule[] => rules.filter((rule) => ruleMatches(rule, filePath));
+
+/**
+ * Return the winning rule for a file path, or null if no rule matches.
+ */
+export const findOwningRule = (
+  rules: CodeownersRule[],
+  filePath: string
+): CodeownersRule | null => {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (ruleMatches(rules[i], filePath)) {
+      return rules[i];
+    }
+  }
+  return null;
+};
+
+/**
+ * Resolve the owners of a file, section by section.
+ *
+ * Rules outside of any section form a single implicit section, so for GitHub
+ * files this is simply the last matching rule. In GitLab files each section
+ * picks its own last matching rule (unless an exclusion pattern in the section
+ * matches), and the file is owned by the owners of every matching section.
+ */
+export const resolveOwnership = (
+  parsed: Pick<ParsedCodeowners, "rules" | "sections">,
+  filePath: string
+): OwnershipResolution => {
+  const file = normalizeFilePath(filePath);
+  return resolveMatches(
+    parsed,
+    parsed.rules.filter((rule) => patternToRegExp(rule.pattern).test(file))
+  );
+};
+
+/**
+ * Resolve ownership from the rules known to match a file, in file order.
+ * Lets callers that find matching rules another way (e.g. an index) share
+ * the section semantics of resolveOwnership().
+ */
+export const resolveMatches = (
+  parsed: Pick<ParsedCodeowners, "sections">,
+  matchingRules: CodeownersRule[]
+): OwnershipResolution => {
+  const matchesBySection = new Map<string | null, CodeownersRule[]>();
+  const excludedSections = new Set<string | null>();
+
+  for (const rule of matchingRules) {
+    const key = rule.section ?? null;
+    if (rule.negated) {
+      excludedSections.add(key);
+      continue;
+    }
+    const matches = matchesBySection.get(key) ?? [];
+    matches.push(rule);
+    matchesBySection.set(key, matches);
+  }
+
+  const sections: SectionMatch[] = [];
+  const owners: string[] = [];
+
+  for (const [key, matches] of matchesBySection) {
+    if (excludedSections.has(key)) continue;
+
+    const section = parsed.sections.find((s) => s.name === key);
+    const rule = matches[matches.length - 1];
+    sections.push({
+      section: key,
+      optional: section?.optional ?? false,
+      approvals: section?.approvals ?? 1,
+      owners: rule.owners,
+      rule,
+      overridden: matches.slice(0, -1),
+    });
+
+    for (const owner of rule.owners) {
+      if (!owners.includes(owner)) owners.push(owner);
+    }
+  }
+
+  return { owners, sections };
+};
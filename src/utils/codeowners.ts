@@ -1,48 +1,428 @@
-import Codeowners from "codeowners";
-import { getChangedFiles } from "./git";
+import { existsSync, readFileSync, statSync } from "fs";
+import path from "path";
+import { getConfig } from "./config";
+import {
+  getChangedFiles,
+  getDefaultBranch,
+  getRepoRoot,
+  getTrackedFiles,
+  hashBlob,
+  listFilesAtRef,
+  readFileAtRef,
+  refExists,
+} from "./git";
+import { log } from "./logger";
 import {
   filterByPathPatterns,
   matchOwnerPattern,
-  matchOwnersExclusive,
 } from "./matcher";
+import {
+  compileOwnershipIndex,
+  loadOwnershipCache,
+  resolveFromIndex,
+  saveOwnershipCache,
+  type OwnershipIndex,
+} from "./ownership-index";
+import {
+  OWNERS_FILE_NAME,
+  parseOwnersFile,
+  resolveWithOwnersFiles,
+  type OwnersFile,
+} from "./owners-files";
+import {
+  parseCodeowners,
+  detectDialect,
+  normalizeFilePath,
+  type CodeownersRule,
+  type ParsedCodeowners,
+  type OwnershipResolution,
+  type SectionMatch,
+} from "./codeowners-parser";
 
-type CodeOwnersFile = InstanceType<typeof Codeowners>;
+export type CodeownersFile = ParsedCodeowners & {
+  path: string | null; // Absolute path of the CODEOWNERS file, null if none was found
+  ref: string | null; // Git ref the file was read from, null for the working tree
+  root: string; // Directory that rule patterns are relative to
+  hash: string | null; // Git blob hash of the CODEOWNERS content, null if none was found
+};
 
-let codeowners: CodeOwnersFile;
+export type OwnershipProviderName = "codeowners" | "owners";
 
-const getCodeownersInstance = (): CodeOwnersFile => {
-  if (!codeowners) {
-    try {
-      codeowners = new Codeowners();
-    } catch (error) {
-      // If no CODEOWNERS file is found, return a mock instance
-      // This allows the tool to work even without a CODEOWNERS file
+/**
+ * Source of ownership used by getOwner() and every command.
+ * Selected with `ownership.provider` in the config file.
+ */
+export type OwnershipProvider = {
+  name: OwnershipProviderName;
+  codeowners: CodeownersFile; // Root CODEOWNERS the provider was created for
+  source: string; // Description of where ownership comes from, for display
+  resolve: (filePath: string) => OwnershipResolution;
+};
+
+export const OWNERSHIP_PROVIDERS: OwnershipProviderName[] = ["codeowners", "owners"];
+
+export type OwnerExplanation = {
+  file: string;
+  owners: string[];
+  rule: CodeownersRule | null; // Winning rule (last match)
+  overridden: CodeownersRule[]; // Earlier rules that also matched
+  sections: SectionMatch[]; // Per-section matches (GitLab sections)
+};
+
+const emptyCodeowners = (root: string, ref: string | null): CodeownersFile => ({
+  path: null,
+  ref,
+  root,
+  hash: null,
+  dialect: "github",
+  rules: [],
+  sections: [],
+  errors: [],
+});
+
+// Locations searched in every directory, in order of precedence
+export const CODEOWNERS_LOCATIONS = [
+  ".github/CODEOWNERS",
+  ".gitlab/CODEOWNERS",
+  "docs/CODEOWNERS",
+  "CODEOWNERS",
+];
+
+let codeowners: CodeownersFile | null = null;
+let provider: OwnershipProvider | null = null;
+
+/**
+ * Find the nearest CODEOWNERS file, walking up from the given directory.
+ */
+const findCodeownersFile = (cwd: string): string | null => {
+  let dir = path.resolve(cwd);
+
+  while (true) {
+    for (const location of CODEOWNERS_LOCATIONS) {
+      const candidate = path.join(dir, location);
+      if (existsSync(candidate) && statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+};
+
+/**
+ * Load and parse the CODEOWNERS file for the current working directory.
+ * If no CODEOWNERS file is found an empty rule set is returned, which allows
+ * the tool to work even without a CODEOWNERS file.
+ */
+export const loadCodeowners = (cwd: string = process.cwd()): CodeownersFile => {
+  const filePath = findCodeownersFile(cwd);
+
+  if (!filePath) {
+    return emptyCodeowners(path.resolve(cwd), null);
+  }
+
+  // The project root is one level up when the file lives in .github/.gitlab/docs
+  let root = path.dirname(filePath);
+  if (/[\\/](\.github|\.gitlab|docs)$/i.test(root)) {
+    root = path.dirname(root);
+  }
+
+  const content = readFileSync(filePath, "utf-8");
+  const parsed = parseCodeowners(content, detectDialect(content, filePath));
+  return { ...parsed, path: filePath, ref: null, root, hash: hashBlob(content) };
+};
+
+/**
+ * Load and parse the CODEOWNERS file from a git ref instead of the working tree.
+ * Only the standard locations at the repository root are searched.
+ */
+export const loadCodeownersFromRef = async (
+  ref: string
+): Promise<CodeownersFile> => {
+  const root = await getRepoRoot();
+
+  for (const location of CODEOWNERS_LOCATIONS) {
+    const content = await readFileAtRef(ref, location);
+    if (content !== null) {
+      const parsed = parseCodeowners(content, detectDialect(content, location));
       return {
-        getOwner: () => [],
-      } as unknown as CodeOwnersFile;
+        ...parsed,
+        path: path.join(root, location),
+        ref,
+        root,
+        hash: hashBlob(content),
+      };
+    }
+  }
+
+  return emptyCodeowners(root, ref);
+};
+
+/**
+ * Describe where the active CODEOWNERS rules come from, e.g. "main:.github/CODEOWNERS"
+ */
+export const describeCodeownersSource = (file: CodeownersFile): string => {
+  if (!file.path) return "none";
+  const relativePath = path.relative(file.root, file.path);
+  return file.ref ? `${file.ref}:${relativePath}` : relativePath;
+};
+
+/**
+ * Select the CODEOWNERS rules used by getOwner() for the rest of the run.
+ *
+ * With an explicit ownersRef, CODEOWNERS is read from that ref. Otherwise the
+ * CODEOWNERS on the base branch the PR will target is used, because that is
+ * the file GitHub uses to pick reviewers. Falls back to the working tree when
+ * the base branch cannot be resolved or has no CODEOWNERS file.
+ */
+export const resolveCodeowners = async (
+  options: { ownersRef?: string; baseBranch?: string; remote?: string } = {}
+): Promise<CodeownersFile> => {
+  if (options.ownersRef) {
+    if (!(await refExists(options.ownersRef))) {
+      throw new Error(`Cannot resolve --owners-ref "${options.ownersRef}"`);
+    }
+    codeowners = await loadCodeownersFromRef(options.ownersRef);
+    if (!codeowners.path) {
+      log.warn(`No CODEOWNERS file found at ${options.ownersRef}. All files will be unowned.`);
+    } else {
+      log.info(`Using CODEOWNERS from ${describeCodeownersSource(codeowners)}`);
+    }
+    await loadOwnershipProvider(codeowners);
+    return codeowners;
+  }
+
+  const baseBranch = options.baseBranch ?? (await getDefaultBranch());
+  const remote = options.remote ?? "origin";
+
+  for (const candidate of [`${remote}/${baseBranch}`, baseBranch]) {
+    if (await refExists(candidate)) {
+      const fromRef = await loadCodeownersFromRef(candidate);
+      if (fromRef.path) {
+        codeowners = fromRef;
+        log.info(`Using CODEOWNERS from ${describeCodeownersSource(codeowners)}`);
+        await loadOwnershipProvider(codeowners);
+        return codeowners;
+      }
+      break;
     }
   }
+
+  codeowners = loadCodeowners();
+  await loadOwnershipProvider(codeowners);
+  return codeowners;
+};
+
+export const getCodeowners = (): CodeownersFile => {
+  if (!codeowners) {
+    codeowners = loadCodeowners();
+  }
   return codeowners;
 };
 
-export const getOwner = (filePath: string): string[] => {
-  const instance = getCodeownersInstance();
-  const owner = instance.getOwner(filePath);
-  return owner;
+const ownershipIndexes = new WeakMap<CodeownersFile, OwnershipIndex>();
+
+/**
+ * Get the compiled ownership index for a CODEOWNERS file.
+ * Matches are cached on disk by blob hash, and saved when the process exits
+ * if new files were resolved.
+ */
+export const getOwnershipIndex = (
+  file: CodeownersFile = getCodeowners()
+): OwnershipIndex => {
+  let index = ownershipIndexes.get(file);
+  if (!index) {
+    // The dialect changes how the same content is parsed
+    const cacheKey = file.hash ? `${file.hash}-${file.dialect}` : null;
+    index = compileOwnershipIndex(file, cacheKey ? loadOwnershipCache(cacheKey) : {});
+    ownershipIndexes.set(file, index);
+
+    if (cacheKey) {
+      const compiled = index;
+      process.once("exit", () => saveOwnershipCache(cacheKey, compiled));
+    }
+  }
+  return index;
+};
+
+/**
+ * Ownership provider for the root CODEOWNERS file only (the default).
+ */
+export const createCodeownersProvider = (
+  file: CodeownersFile
+): OwnershipProvider => ({
+  name: "codeowners",
+  codeowners: file,
+  source: describeCodeownersSource(file),
+  resolve: (filePath) => resolveFromIndex(getOwnershipIndex(file), filePath),
+});
+
+/**
+ * Ownership provider merging nested OWNERS files with the root CODEOWNERS.
+ * See owners-files.ts for the precedence rules.
+ */
+export const createOwnersFileProvider = (
+  file: CodeownersFile,
+  ownersFiles: OwnersFile[]
+): OwnershipProvider => {
+  const byDirectory = new Map(ownersFiles.map((f) => [f.directory, f]));
+  const resolved = new Map<string, OwnershipResolution>();
+  const label = `${ownersFiles.length} ${OWNERS_FILE_NAME} file${ownersFiles.length === 1 ? "" : "s"}`;
+
+  return {
+    name: "owners",
+    codeowners: file,
+    source: file.path ? `${label} and ${describeCodeownersSource(file)}` : label,
+    resolve: (filePath) => {
+      const key = normalizeFilePath(filePath);
+      let resolution = resolved.get(key);
+      if (!resolution) {
+        resolution = resolveWithOwnersFiles(byDirectory, key, (f) =>
+          resolveFromIndex(getOwnershipIndex(file), f)
+        );
+        resolved.set(key, resolution);
+      }
+      return resolution;
+    },
+  };
+};
+
+/**
+ * Read the OWNERS files under the project root, from the same ref as the
+ * CODEOWNERS file (or the working tree).
+ */
+const loadOwnersFiles = async (file: CodeownersFile): Promise<OwnersFile[]> => {
+  const repoRoot = await getRepoRoot();
+  const candidates = (
+    file.ref ? await listFilesAtRef(file.ref) : await getTrackedFiles()
+  ).filter((p) => path.posix.basename(p) === OWNERS_FILE_NAME);
+
+  const ownersFiles: OwnersFile[] = [];
+  for (const candidate of candidates) {
+    const relativePath = normalizeFilePath(
+      path.relative(file.root, path.join(repoRoot, candidate))
+    );
+    if (relativePath.startsWith("../")) continue;
+
+    let content: string | null = null;
+    if (file.ref) {
+      content = await readFileAtRef(file.ref, candidate);
+    } else if (existsSync(path.join(repoRoot, candidate))) {
+      content = readFileSync(path.join(repoRoot, candidate), "utf-8");
+    }
+    if (content === null) continue;
+
+    const ownersFile = parseOwnersFile(content, relativePath);
+    for (const error of ownersFile.errors) {
+      log.warn(`${ownersFile.path}:${error.line}: ${error.message}, line ignored`);
+    }
+    ownersFiles.push(ownersFile);
+  }
+
+  return ownersFiles;
+};
+
+/**
+ * Create the ownership provider configured for the project, for the rules of
+ * a CODEOWNERS file (and the OWNERS files at the same ref).
+ */
+export const createOwnershipProvider = async (
+  file: CodeownersFile
+): Promise<OwnershipProvider> => {
+  const name = getConfig().ownership?.provider ?? "codeowners";
+
+  return name === "owners"
+    ? createOwnersFileProvider(file, await loadOwnersFiles(file))
+    : createCodeownersProvider(file);
+};
+
+/**
+ * Select the ownership provider configured for the project and make it the
+ * one used by getOwner() for the rest of the run.
+ */
+export const loadOwnershipProvider = async (
+  file: CodeownersFile = getCodeowners()
+): Promise<OwnershipProvider> => {
+  provider = await createOwnershipProvider(file);
+
+  if (provider.name !== "codeowners") {
+    log.info(`Using ownership from ${provider.source}`);
+  }
+  return provider;
+};
+
+/**
+ * Get the active ownership provider. Defaults to the root CODEOWNERS file
+ * when no provider was loaded for the current CODEOWNERS rules.
+ */
+export const getOwnershipProvider = (): OwnershipProvider => {
+  const file = getCodeowners();
+  if (!provider || provider.codeowners !== file) {
+    provider = createCodeownersProvider(file);
+  }
+  return provider;
+};
+
+export const getOwner = (filePath: string): string[] =>
+  getOwnership(filePath).owners;
+
+/**
+ * Resolve the owners of a file along with the matching GitLab sections.
+ */
+export const getOwnership = (filePath: string): OwnershipResolution =>
+  getOwnershipProvider().resolve(filePath);
+
+/**
+ * Explain how the owners of a file were resolved: the winning rule and every
+ * earlier rule that also matched but was overridden (last match wins).
+ */
+export const explainOwner = (filePath: string): OwnerExplanation => {
+  const file = normalizeFilePath(filePath);
+  const { owners, sections } = getOwnership(file);
+  const first = sections[0];
+
+  return {
+    file,
+    owners,
+    rule: first ? first.rule : null,
+    overridden: first ? first.overridden : [],
+    sections,
+  };
 };
 
+/**
+ * Return the staged files owned by owners matching the pattern.
+ * Pass a snapshot of the staged files to avoid running `git status` again,
+ * e.g. once per owner in multi-branch.
+ */
 export const getOwnerFiles = async (
   ownerPattern: string,
   includeUnowned: boolean = false,
   pathPattern?: string,
   exclusive: boolean = false,
-  coOwned: boolean = false
+  coOwned: boolean = false,
+  stagedFiles?: string[]
 ): Promise<string[]> => {
-  let changedFiles = await getChangedFiles();
+  let changedFiles = stagedFiles ?? (await getChangedFiles());
 
   // Apply path filtering (returns all files if no pattern)
   changedFiles = filterByPathPatterns(changedFiles, pathPattern);
 
+  // Many files share the same owners, so match each owner only once
+  const ownerMatches = new Map<string, boolean>();
+  const matchesPattern = (owner: string) => {
+    let matches = ownerMatches.get(owner);
+    if (matches === undefined) {
+      matches = matchOwnerPattern(owner, ownerPattern);
+      ownerMatches.set(owner, matches);
+    }
+    return matches;
+  };
+
   return changedFiles.filter((file) => {
     const owners = getOwner(file);
     // If includeUnowned is true and the file has no owners, include it
@@ -55,9 +435,9 @@ export const getOwnerFiles = async (
     }
     // Use exclusive matching if flag is set - only files where ALL owners match
     if (exclusive) {
-      return matchOwnersExclusive(owners, ownerPattern);
+      return owners.length > 0 && owners.every(matchesPattern);
     }
     // Use pattern matching - supports exact match and glob patterns
-    return owners.some((owner) => matchOwnerPattern(owner, ownerPattern));
+    return owners.some(matchesPattern);
   });
 };
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { mapWithConcurrency, parseConcurrency } from "./concurrency";
+import { bufferLogs, log } from "./logger";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  test("should run at most `limit` tasks at once and keep the order", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const reported: number[] = [];
+
+    const results = await mapWithConcurrency(
+      [30, 5, 20, 1, 10],
+      2,
+      async (ms, index) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await sleep(ms);
+        running--;
+        return index * 10;
+      },
+      (_, index) => reported.push(index)
+    );
+
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(reported).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+  });
+
+  test("should handle empty lists", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe("parseConcurrency", () => {
+  test("should default to 1 and accept whole numbers", () => {
+    expect(parseConcurrency(undefined)).toBe(1);
+    expect(parseConcurrency("4")).toBe(4);
+    expect(parseConcurrency(8)).toBe(8);
+  });
+
+  test("should reject other values", () => {
+    expect(() => parseConcurrency("0")).toThrow('Invalid --concurrency value "0"');
+    expect(() => parseConcurrency("two")).toThrow('Invalid --concurrency value "two"');
+    expect(() => parseConcurrency(1.5)).toThrow('Invalid --concurrency value "1.5"');
+  });
+});
+
+describe("bufferLogs", () => {
+  test("should print the output of concurrent tasks one after another", async () => {
+    const printed: string[] = [];
+    const originalLog = console.log;
+    console.log = (message: string) => printed.push(message);
+
+    try {
+      await mapWithConcurrency(
+        ["slow", "fast"],
+        2,
+        (name) =>
+          bufferLogs(async () => {
+            log.info(`${name} started`);
+            await sleep(name === "slow" ? 20 : 1);
+            log.info(`${name} done`);
+          }),
+        ({ flush }) => flush()
+      );
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(printed.map((line) => line.replace(/\x1b\[[0-9;]*m/g, ""))).toEqual([
+      "ℹ slow started",
+      "ℹ slow done",
+      "ℹ fast started",
+      "ℹ fast done",
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Run a task for each item with at most `limit` tasks running at once.
+ * `onDone` is called for each result in the order of the items, as soon as
+ * the result and all the results before it are ready. Tasks are expected to
+ * report their own failures: one that throws rejects the whole run.
+ * @returns The results, in the order of the items
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  onDone?: (result: R, index: number) => void
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  const done = new Array<boolean>(items.length).fill(false);
+  let nextToStart = 0;
+  let nextToReport = 0;
+
+  const worker = async () => {
+    while (nextToStart < items.length) {
+      const index = nextToStart++;
+      results[index] = await task(items[index], index);
+      done[index] = true;
+
+      while (nextToReport < items.length && done[nextToReport]) {
+        onDone?.(results[nextToReport], nextToReport);
+        nextToReport++;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+  return results;
+};
+
+/**
+ * Parse a --concurrency value: a whole number of at least 1.
+ */
+export const parseConcurrency = (value: string | number | undefined): number => {
+  if (value === undefined) return 1;
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency value "${value}" (expected a whole number of at least 1)`);
+  }
+  return concurrency;
+};
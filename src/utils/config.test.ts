@@ -0,0 +1,271 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Command } from "commander";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  addConfigNegations,
+  applyCommandDefaults,
+  configKeyFor,
+  describeOwnerOverride,
+  getCommandDefaults,
+  getOwnerOverride,
+  loadConfig,
+  loadConfigFile,
+  parseConfig,
+} from "./config";
+
+describe("parseConfig", () => {
+  test("should accept owner groups", () => {
+    const config = parseConfig({
+      ownerGroups: { payments: ["@org/payments-api", "@org/payments-*"] },
+    });
+    expect(config.ownerGroups).toEqual({
+      payments: ["@org/payments-api", "@org/payments-*"],
+    });
+  });
+
+  test("should accept an empty config", () => {
+    expect(parseConfig(null)).toEqual({});
+    expect(parseConfig({})).toEqual({});
+  });
+
+  test("should reject invalid owner groups", () => {
+    expect(() => parseConfig([])).toThrow("Config must be an object");
+    expect(() => parseConfig({ ownerGroups: ["@org/a"] })).toThrow('"ownerGroups" must map');
+    expect(() => parseConfig({ ownerGroups: { payments: [] } })).toThrow(
+      'Owner group "payments" must be a non-empty list of owners'
+    );
+    expect(() => parseConfig({ ownerGroups: { payments: "@org/a" } })).toThrow("payments");
+  });
+
+  test("should accept an ownership provider", () => {
+    expect(parseConfig({ ownership: { provider: "owners" } })).toEqual({
+      ownership: { provider: "owners" },
+    });
+    expect(() => parseConfig({ ownership: { provider: "gerrit" } })).toThrow(
+      'Invalid ownership provider "gerrit"'
+    );
+    expect(() => parseConfig({ ownership: "owners" })).toThrow('"ownership" must be an object');
+  });
+
+  test("should accept shared and per-command defaults", () => {
+    const config = parseConfig({
+      defaults: { noVerify: true, remote: "upstream" },
+      commands: { "multi-branch": { draftPr: true, groupBy: "team" } },
+    });
+    expect(config.defaults).toEqual({ noVerify: true, remote: "upstream" });
+    expect(config.commands).toEqual({ "multi-branch": { draftPr: true, groupBy: "team" } });
+  });
+
+  test("should accept base candidates and a default base", () => {
+    const config = parseConfig({
+      baseCandidates: ["trunk", "release"],
+      commands: { "multi-branch": { base: "release" } },
+    });
+    expect(config.baseCandidates).toEqual(["trunk", "release"]);
+    expect(config.commands).toEqual({ "multi-branch": { base: "release" } });
+    expect(() => parseConfig({ baseCandidates: [] })).toThrow(
+      '"baseCandidates" must be a non-empty list of branch names'
+    );
+    expect(() => parseConfig({ baseCandidates: "trunk" })).toThrow('"baseCandidates"');
+  });
+
+  test("should reject unknown keys, commands and options", () => {
+    expect(() => parseConfig({ owners: {} })).toThrow('Unknown config key "owners"');
+    expect(() => parseConfig({ commands: { explain: {} } })).toThrow(
+      'Unknown command "explain" in "commands"'
+    );
+    expect(() => parseConfig({ commands: { list: { push: true } } })).toThrow(
+      'Unknown option "push" in "commands.list"'
+    );
+    expect(() => parseConfig({ defaults: { dryRun: true } })).toThrow(
+      'Unknown option "dryRun" in "defaults"'
+    );
+  });
+
+  test("should reject option values of the wrong type", () => {
+    expect(() => parseConfig({ defaults: { push: "yes" } })).toThrow(
+      '"defaults.push" must be true or false'
+    );
+    expect(() => parseConfig({ commands: { branch: { remote: 1 } } })).toThrow(
+      '"commands.branch.remote" must be a string'
+    );
+    expect(() => parseConfig({ commands: { branch: true } })).toThrow(
+      '"commands.branch" must map option names to values'
+    );
+    expect(() => parseConfig({ commands: { "multi-branch": { concurrency: "4" } } })).toThrow(
+      '"commands.multi-branch.concurrency" must be a number'
+    );
+  });
+});
+
+describe("ownerOverrides", () => {
+  const config = parseConfig({
+    ownerOverrides: {
+      "@org/*": { labels: ["split"], draft: false },
+      "@org/mobile-*": { base: "develop", labels: ["mobile"], draft: true },
+      "@org/infra": { labels: ["infra-review"], reviewers: ["@alice"], messagePrefix: "[infra] " },
+    },
+  });
+
+  test("should merge every matching pattern in order", () => {
+    expect(getOwnerOverride(["@org/mobile-ios"], config)).toEqual({
+      base: "develop",
+      labels: ["split", "mobile"],
+      draft: true,
+    });
+    expect(getOwnerOverride(["@org/infra"], config)).toEqual({
+      labels: ["split", "infra-review"],
+      reviewers: ["@alice"],
+      draft: false,
+      messagePrefix: "[infra] ",
+    });
+    expect(getOwnerOverride(["@other/web"], config)).toEqual({});
+  });
+
+  test("should match any owner of a grouped branch", () => {
+    expect(getOwnerOverride(["platform", "@org/infra"], config).reviewers).toEqual(["@alice"]);
+  });
+
+  test("should describe resolved overrides", () => {
+    expect(describeOwnerOverride(getOwnerOverride(["@org/mobile-ios"], config))).toBe(
+      "base: develop\ndraft: yes\nlabels: split, mobile"
+    );
+    expect(describeOwnerOverride({})).toBe("");
+  });
+
+  test("should reject invalid overrides", () => {
+    expect(() => parseConfig({ ownerOverrides: ["@org/*"] })).toThrow(
+      '"ownerOverrides" must map owner patterns to overrides'
+    );
+    expect(() => parseConfig({ ownerOverrides: { "@org/*": { branch: "x" } } })).toThrow(
+      'Unknown key "branch" in owner override "@org/*"'
+    );
+    expect(() => parseConfig({ ownerOverrides: { "@org/*": { labels: "mobile" } } })).toThrow(
+      '"labels" in owner override "@org/*" must be a list of strings'
+    );
+    expect(() => parseConfig({ ownerOverrides: { "@org/*": { draft: "yes" } } })).toThrow(
+      '"draft" in owner override "@org/*" must be true or false'
+    );
+  });
+});
+
+describe("getCommandDefaults", () => {
+  const config = parseConfig({
+    defaults: { noVerify: true, push: true, group: true },
+    commands: { branch: { push: false, remote: "fork" } },
+  });
+
+  test("should let per-command defaults override shared defaults", () => {
+    expect(getCommandDefaults("branch", config)).toEqual({
+      verify: false,
+      push: false,
+      remote: "fork",
+    });
+  });
+
+  test("should only return options the command supports", () => {
+    expect(getCommandDefaults("list", config)).toEqual({ group: true });
+    expect(getCommandDefaults("explain", config)).toEqual({});
+  });
+
+  test("should map negated options back to their config key", () => {
+    expect(configKeyFor("verify")).toBe("noVerify");
+    expect(configKeyFor("push")).toBe("push");
+  });
+});
+
+describe("applyCommandDefaults", () => {
+  const config = parseConfig({
+    commands: { branch: { push: true, noVerify: true, remote: "fork" } },
+  });
+
+  // Parses the flags of a branch command, with the config applied like the CLI does
+  const parse = (args: string[]) => {
+    let options: Record<string, unknown> = {};
+    const program = new Command().exitOverride();
+    program.hook("preSubcommand", (_program, command) => applyCommandDefaults(command, config));
+    program
+      .command("branch")
+      .option("-n, --no-verify", "Skip hooks")
+      .option("-p, --push", "Push")
+      .option("-r, --remote <remote>", "Remote", "origin")
+      .action((opts) => {
+        options = opts;
+      });
+    program.commands.forEach(addConfigNegations);
+    program.parse(["branch", ...args], { from: "user" });
+    return options;
+  };
+
+  test("should use the config when no flag is given", () => {
+    expect(parse([])).toEqual({ verify: false, push: true, remote: "fork" });
+  });
+
+  test("should let flags on the command line override the config", () => {
+    expect(parse(["--no-push", "--verify", "-r", "origin"])).toEqual({
+      verify: true,
+      push: false,
+      remote: "origin",
+    });
+  });
+});
+
+describe("loadConfig", () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(path.join(tmpdir(), "cg-config-"));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("should return an empty config when no file exists", () => {
+    expect(loadConfig(root)).toEqual({});
+  });
+
+  test("should load YAML config", () => {
+    writeFileSync(
+      path.join(root, ".codeowners-git.yml"),
+      'ownerGroups:\n  payments:\n    - "@org/payments-*"\n'
+    );
+    expect(loadConfig(root).ownerGroups).toEqual({ payments: ["@org/payments-*"] });
+  });
+
+  test("should prefer JSON config and report invalid files", () => {
+    writeFileSync(path.join(root, ".codeowners-git.json"), '{"ownerGroups": {"core": "@org/core"}}');
+    expect(() => loadConfig(root)).toThrow("Invalid config .codeowners-git.json");
+    rmSync(path.join(root, ".codeowners-git.json"));
+  });
+
+  test("should find the config in a parent directory", () => {
+    const nested = path.join(root, "packages", "billing");
+    mkdirSync(nested, { recursive: true });
+    expect(loadConfigFile(nested)).toEqual({
+      path: path.join(root, ".codeowners-git.yml"),
+      config: { ownerGroups: { payments: ["@org/payments-*"] } },
+    });
+  });
+
+  test("should read the package.json key after the config files", () => {
+    const pkg = path.join(root, "packages", "billing");
+    writeFileSync(
+      path.join(pkg, "package.json"),
+      JSON.stringify({ name: "billing", "codeowners-git": { defaults: { push: true } } })
+    );
+    expect(loadConfig(pkg)).toEqual({ defaults: { push: true } });
+
+    writeFileSync(path.join(pkg, ".codeowners-git.json"), '{"defaults": {"pr": true}}');
+    expect(loadConfig(pkg)).toEqual({ defaults: { pr: true } });
+  });
+
+  test("should skip package.json without the config key", () => {
+    const pkg = path.join(root, "packages", "web");
+    mkdirSync(pkg, { recursive: true });
+    writeFileSync(path.join(pkg, "package.json"), '{"name": "web"}');
+    expect(loadConfigFile(pkg).path).toBe(path.join(root, ".codeowners-git.yml"));
+  });
+});
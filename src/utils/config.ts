@@ -0,0 +1,465 @@
+import type { Command } from "commander";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { parse } from "yaml";
+import { OWNERSHIP_PROVIDERS, type OwnershipProviderName } from "./codeowners";
+import { matchOwnerPattern } from "./matcher";
+
+export type ConfigurableCommand = "list" | "branch" | "multi-branch" | "extract";
+
+// Option name (camelCase, as on the command line) → value
+export type CommandDefaults = Record<string, string | boolean | number>;
+
+// Settings for the branches and PRs of matching owners
+export type OwnerOverride = {
+  base?: string; // PR base branch
+  labels?: string[]; // PR labels
+  reviewers?: string[]; // Extra reviewers (owners or GitHub logins)
+  assignees?: string[]; // PR assignees (GitHub logins)
+  draft?: boolean; // Create PRs as drafts (true) or ready for review (false)
+  messagePrefix?: string; // Prepended to multi-branch commit messages
+};
+
+export type CodeownersGitConfig = {
+  // Logical group name → owner names or globs whose files share one branch/PR
+  ownerGroups?: Record<string, string[]>;
+  ownership?: {
+    provider?: OwnershipProviderName; // "codeowners" (default) or "owners" for nested OWNERS files
+  };
+  defaults?: CommandDefaults; // Defaults for every command that has the option
+  commands?: Partial<Record<ConfigurableCommand, CommandDefaults>>; // Per-command defaults
+  // Owner pattern (glob, as in --include) → overrides for its branches and PRs
+  ownerOverrides?: Record<string, OwnerOverride>;
+  // Branches a --source branch may have been cut from, tried in order after
+  // the default branch (default: main, master, develop)
+  baseCandidates?: string[];
+};
+
+export type ConfigFile = {
+  path: string | null; // Absolute path of the config file, null if none was found
+  config: CodeownersGitConfig;
+};
+
+// Files searched in every directory, in order of precedence
+export const CONFIG_LOCATIONS = [
+  ".codeowners-git.json",
+  ".codeowners-git.yml",
+  ".codeowners-git.yaml",
+];
+
+// Key holding the config in package.json
+export const PACKAGE_JSON_KEY = "codeowners-git";
+
+type OptionType = "string" | "boolean" | "number";
+
+const PUSH_OPTIONS: Record<string, OptionType> = {
+  noVerify: "boolean",
+  push: "boolean",
+  remote: "string",
+  upstream: "string",
+  force: "boolean",
+  keepBranchOnFailure: "boolean",
+  append: "boolean",
+  pr: "boolean",
+  draftPr: "boolean",
+  prBody: "string",
+  prTitle: "string",
+  prBodyTemplate: "string",
+  compareMain: "boolean",
+  worktree: "boolean",
+  strategy: "string",
+  base: "string",
+};
+
+const FILTER_OPTIONS: Record<string, OptionType> = {
+  include: "string",
+  exclusive: "boolean",
+  coOwned: "boolean",
+  ownersRef: "string",
+};
+
+// Options that can be set in the config file, per command. Options that only
+// make sense for one invocation (branch name, --dry-run, --source...) are left out.
+export const COMMAND_OPTIONS: Record<ConfigurableCommand, Record<string, OptionType>> = {
+  list: { ...FILTER_OPTIONS, group: "boolean" },
+  branch: { ...FILTER_OPTIONS, ...PUSH_OPTIONS },
+  "multi-branch": {
+    ...FILTER_OPTIONS,
+    ...PUSH_OPTIONS,
+    ignore: "string",
+    defaultOwner: "string",
+    groupBy: "string",
+    coOwnedStrategy: "string",
+    branchTemplate: "string",
+    messageTemplate: "string",
+    conventional: "boolean",
+    scopeFrom: "string",
+    concurrency: "number",
+  },
+  extract: { ...FILTER_OPTIONS, compareMain: "boolean" },
+};
+
+// Config keys for negated flags (`--no-verify`) → commander option attribute
+const NEGATED_OPTIONS: Record<string, string> = { noVerify: "verify" };
+
+const TOP_LEVEL_KEYS = [
+  "ownerGroups",
+  "ownership",
+  "defaults",
+  "commands",
+  "ownerOverrides",
+  "baseCandidates",
+];
+
+const OVERRIDE_KEYS: Record<keyof OwnerOverride, "string" | "boolean" | "list"> = {
+  base: "string",
+  labels: "list",
+  reviewers: "list",
+  assignees: "list",
+  draft: "boolean",
+  messagePrefix: "string",
+};
+
+let configFile: ConfigFile | null = null;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validate command defaults against the options of the given commands.
+ */
+const parseCommandDefaults = (
+  value: unknown,
+  key: string,
+  commands: ConfigurableCommand[]
+): CommandDefaults => {
+  if (!isObject(value)) {
+    throw new Error(`"${key}" must map option names to values`);
+  }
+
+  for (const [option, optionValue] of Object.entries(value)) {
+    const type = commands
+      .map((command) => COMMAND_OPTIONS[command][option])
+      .find((t) => t !== undefined);
+    if (!type) {
+      const supported = new Set(
+        commands.flatMap((command) => Object.keys(COMMAND_OPTIONS[command]))
+      );
+      throw new Error(
+        `Unknown option "${option}" in "${key}" (supported: ${Array.from(supported).join(", ")})`
+      );
+    }
+    if (typeof optionValue !== type) {
+      throw new Error(
+        `"${key}.${option}" must be ${type === "boolean" ? "true or false" : `a ${type}`}`
+      );
+    }
+  }
+
+  return value as CommandDefaults;
+};
+
+/**
+ * Validate the overrides of one owner pattern.
+ */
+const parseOwnerOverride = (value: unknown, pattern: string): OwnerOverride => {
+  if (!isObject(value)) {
+    throw new Error(`Owner override "${pattern}" must be an object`);
+  }
+
+  for (const [key, keyValue] of Object.entries(value)) {
+    const type = OVERRIDE_KEYS[key as keyof OwnerOverride];
+    if (!type) {
+      throw new Error(
+        `Unknown key "${key}" in owner override "${pattern}" (supported: ${Object.keys(OVERRIDE_KEYS).join(", ")})`
+      );
+    }
+    const valid =
+      type === "list"
+        ? Array.isArray(keyValue) && keyValue.every((item) => typeof item === "string")
+        : typeof keyValue === type;
+    if (!valid) {
+      throw new Error(
+        `"${key}" in owner override "${pattern}" must be ${
+          type === "list" ? "a list of strings" : type === "boolean" ? "true or false" : "a string"
+        }`
+      );
+    }
+  }
+
+  return value as OwnerOverride;
+};
+
+/**
+ * Validate the parsed contents of a config file.
+ */
+export const parseConfig = (data: unknown): CodeownersGitConfig => {
+  if (data === null || data === undefined) return {};
+  if (!isObject(data)) {
+    throw new Error("Config must be an object");
+  }
+
+  const unknownKey = Object.keys(data).find((key) => !TOP_LEVEL_KEYS.includes(key));
+  if (unknownKey) {
+    throw new Error(
+      `Unknown config key "${unknownKey}" (supported: ${TOP_LEVEL_KEYS.join(", ")})`
+    );
+  }
+
+  const { ownerGroups, ownership, defaults, commands, ownerOverrides, baseCandidates } = data;
+  const config: CodeownersGitConfig = {};
+
+  if (ownerGroups !== undefined) {
+    if (!isObject(ownerGroups)) {
+      throw new Error('"ownerGroups" must map group names to lists of owners');
+    }
+    for (const [name, owners] of Object.entries(ownerGroups)) {
+      if (
+        !Array.isArray(owners) ||
+        owners.length === 0 ||
+        owners.some((owner) => typeof owner !== "string")
+      ) {
+        throw new Error(`Owner group "${name}" must be a non-empty list of owners`);
+      }
+    }
+    config.ownerGroups = ownerGroups as Record<string, string[]>;
+  }
+
+  if (ownership !== undefined) {
+    if (!isObject(ownership)) {
+      throw new Error('"ownership" must be an object');
+    }
+    const { provider } = ownership;
+    if (
+      provider !== undefined &&
+      !OWNERSHIP_PROVIDERS.includes(provider as OwnershipProviderName)
+    ) {
+      throw new Error(
+        `Invalid ownership provider "${provider}" (expected ${OWNERSHIP_PROVIDERS.join(" or ")})`
+      );
+    }
+    config.ownership = provider !== undefined ? { provider: provider as OwnershipProviderName } : {};
+  }
+
+  const configurable = Object.keys(COMMAND_OPTIONS) as ConfigurableCommand[];
+
+  if (defaults !== undefined) {
+    config.defaults = parseCommandDefaults(defaults, "defaults", configurable);
+  }
+
+  if (commands !== undefined) {
+    if (!isObject(commands)) {
+      throw new Error('"commands" must map command names to option defaults');
+    }
+    config.commands = {};
+    for (const [command, value] of Object.entries(commands)) {
+      if (!configurable.includes(command as ConfigurableCommand)) {
+        throw new Error(
+          `Unknown command "${command}" in "commands" (supported: ${configurable.join(", ")})`
+        );
+      }
+      config.commands[command as ConfigurableCommand] = parseCommandDefaults(
+        value,
+        `commands.${command}`,
+        [command as ConfigurableCommand]
+      );
+    }
+  }
+
+  if (ownerOverrides !== undefined) {
+    if (!isObject(ownerOverrides)) {
+      throw new Error('"ownerOverrides" must map owner patterns to overrides');
+    }
+    config.ownerOverrides = {};
+    for (const [pattern, value] of Object.entries(ownerOverrides)) {
+      config.ownerOverrides[pattern] = parseOwnerOverride(value, pattern);
+    }
+  }
+
+  if (baseCandidates !== undefined) {
+    if (
+      !Array.isArray(baseCandidates) ||
+      baseCandidates.length === 0 ||
+      baseCandidates.some((base) => typeof base !== "string")
+    ) {
+      throw new Error('"baseCandidates" must be a non-empty list of branch names');
+    }
+    config.baseCandidates = baseCandidates as string[];
+  }
+
+  return config;
+};
+
+/**
+ * Find and load the nearest config, walking up from the given directory.
+ * In each directory the config files are searched first, then the
+ * `codeowners-git` key of package.json. Returns an empty config when none is found.
+ */
+export const loadConfigFile = (cwd: string = process.cwd()): ConfigFile => {
+  let dir = path.resolve(cwd);
+
+  while (true) {
+    for (const location of [...CONFIG_LOCATIONS, "package.json"]) {
+      const filePath = path.join(dir, location);
+      if (!existsSync(filePath)) continue;
+
+      try {
+        const content = readFileSync(filePath, "utf-8");
+        if (location === "package.json") {
+          const data = JSON.parse(content);
+          if (!isObject(data) || !(PACKAGE_JSON_KEY in data)) continue;
+          return { path: filePath, config: parseConfig(data[PACKAGE_JSON_KEY]) };
+        }
+        // JSON is valid YAML, so one parser handles both formats
+        return { path: filePath, config: parseConfig(parse(content)) };
+      } catch (error) {
+        throw new Error(
+          `Invalid config ${path.relative(cwd, filePath)}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return { path: null, config: {} };
+    }
+    dir = parent;
+  }
+};
+
+export const loadConfig = (cwd: string = process.cwd()): CodeownersGitConfig =>
+  loadConfigFile(cwd).config;
+
+export const getConfigFile = (): ConfigFile => {
+  if (!configFile) {
+    configFile = loadConfigFile();
+  }
+  return configFile;
+};
+
+export const getConfig = (): CodeownersGitConfig => getConfigFile().config;
+
+/**
+ * Get the option defaults for a command from the config, keyed by commander
+ * option attribute (`noVerify: true` becomes `verify: false`).
+ * Per-command defaults override the shared `defaults`.
+ */
+export const getCommandDefaults = (
+  command: string,
+  config: CodeownersGitConfig = getConfig()
+): CommandDefaults => {
+  const options = COMMAND_OPTIONS[command as ConfigurableCommand];
+  if (!options) return {};
+
+  const merged: CommandDefaults = {};
+  for (const [key, value] of Object.entries({
+    ...config.defaults,
+    ...config.commands?.[command as ConfigurableCommand],
+  })) {
+    if (!(key in options)) continue;
+    if (key in NEGATED_OPTIONS) {
+      merged[NEGATED_OPTIONS[key]] = !value;
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+};
+
+/**
+ * Set the option defaults from the config on a command, before its flags are
+ * parsed: flags on the command line then override them.
+ */
+export const applyCommandDefaults = (
+  command: Command,
+  config: CodeownersGitConfig = getConfig()
+): void => {
+  for (const [key, value] of Object.entries(getCommandDefaults(command.name(), config))) {
+    const source = command.getOptionValueSource(key);
+    if (source === undefined || source === "default") {
+      command.setOptionValueWithSource(key, value, "config");
+    }
+  }
+};
+
+const toFlag = (key: string): string => key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+/**
+ * Add a flag that turns off each boolean option a command can take from the
+ * config (`--no-push` for `push`, `--verify` for `noVerify`), so a `true` in
+ * the config can be overridden. Call it after the command's own options.
+ */
+export const addConfigNegations = (command: Command): Command => {
+  const options = COMMAND_OPTIONS[command.name() as ConfigurableCommand] ?? {};
+  for (const [key, type] of Object.entries(options)) {
+    if (type !== "boolean") continue;
+    const attribute = NEGATED_OPTIONS[key];
+    // Only for flags the command has: a lone `--no-x` would default x to true
+    const defined = command.options.some(
+      (option) => option.attributeName() === (attribute ?? key) && option.negate === !!attribute
+    );
+    if (!defined) continue;
+    command.option(
+      attribute ? `--${toFlag(attribute)}` : `--no-${toFlag(key)}`,
+      `Turn off ${attribute ? `--no-${toFlag(attribute)}` : `--${toFlag(key)}`} set in the config file`
+    );
+  }
+  return command;
+};
+
+/**
+ * Get the config key of a commander option attribute (`verify` → `noVerify`).
+ */
+export const configKeyFor = (attribute: string): string =>
+  Object.keys(NEGATED_OPTIONS).find((key) => NEGATED_OPTIONS[key] === attribute) ??
+  attribute;
+
+/**
+ * Describe the options taken from the config file, for dry-run output.
+ * @example describeConfigOptions(["push", "draftPr"]) => ".codeowners-git.yml: push, draftPr"
+ */
+export const describeConfigOptions = (options: string[]): string => {
+  const file = getConfigFile().path;
+  return `${file ? path.relative(process.cwd(), file) : "config"}: ${options.join(", ")}`;
+};
+
+/**
+ * Resolve the overrides for a branch from the patterns matching any of its
+ * owners. Patterns apply in config order: later values win, and lists are merged.
+ */
+export const getOwnerOverride = (
+  owners: string[],
+  config: CodeownersGitConfig = getConfig()
+): OwnerOverride => {
+  const resolved: OwnerOverride = {};
+
+  for (const [pattern, override] of Object.entries(config.ownerOverrides ?? {})) {
+    if (!owners.some((owner) => matchOwnerPattern(owner, pattern))) continue;
+
+    for (const key of ["labels", "reviewers", "assignees"] as const) {
+      if (override[key]) {
+        resolved[key] = Array.from(new Set([...(resolved[key] ?? []), ...override[key]]));
+      }
+    }
+    if (override.base !== undefined) resolved.base = override.base;
+    if (override.draft !== undefined) resolved.draft = override.draft;
+    if (override.messagePrefix !== undefined) resolved.messagePrefix = override.messagePrefix;
+  }
+
+  return resolved;
+};
+
+/**
+ * Describe resolved owner overrides, one setting per line, for dry-run output.
+ */
+export const describeOwnerOverride = (override: OwnerOverride): string =>
+  [
+    override.base !== undefined ? `base: ${override.base}` : null,
+    override.draft !== undefined ? `draft: ${override.draft ? "yes" : "no"}` : null,
+    override.labels?.length ? `labels: ${override.labels.join(", ")}` : null,
+    override.reviewers?.length ? `reviewers: ${override.reviewers.join(", ")}` : null,
+    override.assignees?.length ? `assignees: ${override.assignees.join(", ")}` : null,
+    override.messagePrefix !== undefined ? `prefix: "${override.messagePrefix}"` : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
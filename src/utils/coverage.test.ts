@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { parseCodeowners } from "./codeowners-parser";
+import { computeCoverage, coverageToMarkdown } from "./coverage";
+
+const files = [
+  "README.md",
+  "src/index.ts",
+  "src/utils/helpers.ts",
+  "legacy/old.js",
+  "legacy/vendor/lib.js",
+  "scripts/build.sh",
+  "scripts/ci/deploy.sh",
+  "tools/generated/a.js",
+];
+
+describe("computeCoverage", () => {
+  test("should count owned files and files per owner", () => {
+    const report = computeCoverage(
+      parseCodeowners("/src/ @org/core\n/src/utils/ @org/core @org/utils\n/scripts/build.sh @org/ci"),
+      files
+    );
+
+    expect(report.totalFiles).toBe(8);
+    expect(report.ownedFiles).toBe(3);
+    expect(report.unownedFiles).toBe(5);
+    expect(report.coverage).toBe(37.5);
+    expect(report.owners).toEqual([
+      { owner: "@org/core", files: 2 },
+      { owner: "@org/ci", files: 1 },
+      { owner: "@org/utils", files: 1 },
+    ]);
+  });
+
+  test("should report the outermost unowned directories by size", () => {
+    const report = computeCoverage(
+      parseCodeowners("/src/ @org/core\n/scripts/build.sh @org/ci"),
+      files
+    );
+
+    expect(report.unownedDirectories).toEqual([
+      { directory: "legacy", files: 2 },
+      { directory: "scripts/ci", files: 1 },
+      { directory: "tools", files: 1 },
+    ]);
+  });
+
+  test("should list files owned only by a catch-all rule", () => {
+    const report = computeCoverage(
+      parseCodeowners("* @org/default\n/src/ @org/core"),
+      files
+    );
+
+    expect(report.coverage).toBe(100);
+    expect(report.catchAllFiles).toHaveLength(6);
+    expect(report.catchAllFiles).not.toContain("src/index.ts");
+  });
+
+  test("should treat rules without owners as unowned", () => {
+    const report = computeCoverage(parseCodeowners("* @org/default\n/legacy/"), files);
+    expect(report.unownedFiles).toBe(2);
+    expect(report.unownedDirectories).toEqual([{ directory: "legacy", files: 2 }]);
+  });
+
+  test("should report full coverage for an empty repository", () => {
+    expect(computeCoverage(parseCodeowners(""), []).coverage).toBe(100);
+  });
+});
+
+describe("coverageToMarkdown", () => {
+  test("should render the summary and tables", () => {
+    const report = computeCoverage(parseCodeowners("/src/ @org/core"), files);
+    const markdown = coverageToMarkdown(report, ".github/CODEOWNERS");
+
+    expect(markdown).toContain("**25%** of files have an owner (2 of 8) according to `.github/CODEOWNERS`.");
+    expect(markdown).toContain("| `legacy/` | 2 |");
+    expect(markdown).toContain("| @org/core | 2 |");
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  resolveOwnership,
+  type CodeownersRule,
+  type OwnershipResolution,
+  type ParsedCodeowners,
+} from "./codeowners-parser";
+
+export type DirectoryCoverage = {
+  directory: string;
+  files: number;
+};
+
+export type OwnerCoverage = {
+  owner: string;
+  files: number;
+};
+
+export type CoverageReport = {
+  totalFiles: number;
+  ownedFiles: number;
+  unownedFiles: number;
+  coverage: number; // Percentage of files with at least one owner (0-100)
+  unownedDirectories: DirectoryCoverage[]; // Largest directories without any owned file
+  owners: OwnerCoverage[]; // Files per owner, co-owned files count for every owner
+  catchAllFiles: string[]; // Files owned only through a catch-all rule such as `*`
+};
+
+const CATCH_ALL_PATTERNS = new Set(["*", "**", "/*", "/**"]);
+
+/**
+ * Check whether a rule matches every file in the repository.
+ */
+export const isCatchAllRule = (rule: CodeownersRule): boolean =>
+  CATCH_ALL_PATTERNS.has(rule.pattern);
+
+/**
+ * Return the ancestor directories of a file, from the top down.
+ */
+const parentDirectories = (file: string): string[] => {
+  const segments = file.split("/").slice(0, -1);
+  return segments.map((_, i) => segments.slice(0, i + 1).join("/"));
+};
+
+/**
+ * Compute ownership coverage of a set of files (usually every tracked file).
+ *
+ * Unowned directories are the outermost directories in which no file has an
+ * owner, sorted by the number of files they contain. Ownership is resolved
+ * from the CODEOWNERS rules unless another resolver (provider) is given.
+ */
+export const computeCoverage = (
+  codeowners: Pick<ParsedCodeowners, "rules" | "sections">,
+  files: string[],
+  maxDirectories = 10,
+  resolve: (file: string) => OwnershipResolution = (file) =>
+    resolveOwnership(codeowners, file)
+): CoverageReport => {
+  const ownerCounts = new Map<string, number>();
+  const catchAllFiles: string[] = [];
+  const directoryTotals = new Map<string, number>();
+  const directoryOwned = new Map<string, number>();
+  let ownedFiles = 0;
+
+  for (const file of files) {
+    const { owners, sections } = resolve(file);
+    const owned = owners.length > 0;
+
+    for (const directory of parentDirectories(file)) {
+      directoryTotals.set(directory, (directoryTotals.get(directory) ?? 0) + 1);
+      if (owned) {
+        directoryOwned.set(directory, (directoryOwned.get(directory) ?? 0) + 1);
+      }
+    }
+
+    if (!owned) continue;
+
+    ownedFiles++;
+    for (const owner of owners) {
+      ownerCounts.set(owner, (ownerCounts.get(owner) ?? 0) + 1);
+    }
+    if (sections.every((match) => isCatchAllRule(match.rule))) {
+      catchAllFiles.push(file);
+    }
+  }
+
+  // Keep only the outermost fully unowned directories
+  const unownedDirectories: DirectoryCoverage[] = [];
+  for (const [directory, total] of directoryTotals) {
+    if (directoryOwned.has(directory)) continue;
+    const parent = directory.includes("/")
+      ? directory.slice(0, directory.lastIndexOf("/"))
+      : null;
+    if (parent !== null && !directoryOwned.has(parent)) continue;
+    unownedDirectories.push({ directory, files: total });
+  }
+  unownedDirectories.sort(
+    (a, b) => b.files - a.files || a.directory.localeCompare(b.directory)
+  );
+
+  const owners = Array.from(ownerCounts, ([owner, count]) => ({
+    owner,
+    files: count,
+  })).sort((a, b) => b.files - a.files || a.owner.localeCompare(b.owner));
+
+  const totalFiles = files.length;
+  return {
+    totalFiles,
+    ownedFiles,
+    unownedFiles: totalFiles - ownedFiles,
+    coverage:
+      totalFiles === 0 ? 100 : Math.round((ownedFiles / totalFiles) * 10000) / 100,
+    unownedDirectories: unownedDirectories.slice(0, maxDirectories),
+    owners,
+    catchAllFiles,
+  };
+};
+
+/**
+ * Render a coverage report as Markdown, e.g. for a PR comment or job summary.
+ */
+export const coverageToMarkdown = (
+  report: CoverageReport,
+  codeownersFile: string | null
+): string => {
+  const lines = [
+    "## CODEOWNERS coverage",
+    "",
+    `**${report.coverage}%** of files have an owner (${report.ownedFiles} of ${report.totalFiles})` +
+      (codeownersFile ? ` according to \`${codeownersFile}\`.` : "."),
+    "",
+  ];
+
+  if (report.unownedDirectories.length > 0) {
+    lines.push("### Largest unowned directories", "", "| Directory | Files |", "| --- | ---: |");
+    for (const d of report.unownedDirectories) {
+      lines.push(`| \`${d.directory}/\` | ${d.files} |`);
+    }
+    lines.push("");
+  }
+
+  if (report.owners.length > 0) {
+    lines.push("### Files per owner", "", "| Owner | Files |", "| --- | ---: |");
+    for (const o of report.owners) {
+      lines.push(`| ${o.owner} | ${o.files} |`);
+    }
+    lines.push("");
+  }
+
+  if (report.catchAllFiles.length > 0) {
+    lines.push(
+      "### Owned only by a catch-all rule",
+      "",
+      `${report.catchAllFiles.length} file${report.catchAllFiles.length !== 1 ? "s are" : " is"} only owned through a catch-all rule such as \`*\`.`,
+      ""
+    );
+  }
+
+  return lines.join("\n");
+};
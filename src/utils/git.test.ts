@@ -1,9 +1,236 @@
-import { describe, expect, test } from "bun:test";
-import { getChangedFiles } from "./git";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { spawnSync } from "child_process";
+import { chmodSync, mkdtempSync, rmSync, symlinkSync, writeFileSync, mkdirSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  changedPaths,
+  getBaseBranchName,
+  getBranchStrategyName,
+  getChangedFiles,
+  hashBlob,
+  parseRawDiff,
+} from "./git";
 
 describe("Git Utilities", () => {
   test("getChangedFiles returns array of strings", async () => {
     const files = await getChangedFiles();
     expect(Array.isArray(files)).toBe(true);
   });
+
+  test("hashBlob matches git hash-object", () => {
+    // echo "hello" | git hash-object --stdin
+    expect(hashBlob("hello\n")).toBe("ce013625030ba8dba906f756967f9e9ca394464a");
+  });
+});
+
+describe("parseRawDiff", () => {
+  const zero = "0".repeat(40);
+  const hash = "a".repeat(40);
+
+  test("parses additions, deletions, mode changes and renames", () => {
+    const output = [
+      `:000000 100644 ${zero} ${hash} A`, "web/new.ts",
+      `:100644 000000 ${hash} ${zero} D`, "api/gone.ts",
+      `:100644 100755 ${hash} ${hash} M`, "scripts/run.sh",
+      `:100644 100644 ${hash} ${hash} R087`, "web/old name.ts", "api/new name.ts",
+      "",
+    ].join("\0");
+
+    expect(parseRawDiff(output)).toEqual([
+      { status: "added", path: "web/new.ts", oldMode: "000000", newMode: "100644" },
+      { status: "deleted", path: "api/gone.ts", oldMode: "100644", newMode: "000000" },
+      { status: "modified", path: "scripts/run.sh", oldMode: "100644", newMode: "100755" },
+      {
+        status: "renamed",
+        oldPath: "web/old name.ts",
+        path: "api/new name.ts",
+        oldMode: "100644",
+        newMode: "100644",
+      },
+    ]);
+  });
+
+  test("returns no changes for an empty diff", () => {
+    expect(parseRawDiff("")).toEqual([]);
+  });
+});
+
+describe("changedPaths", () => {
+  test("includes both sides of a rename", () => {
+    expect(
+      changedPaths([
+        { status: "renamed", oldPath: "web/a.ts", path: "api/a.ts", oldMode: "100644", newMode: "100644" },
+        { status: "copied", oldPath: "web/b.ts", path: "api/b.ts", oldMode: "100644", newMode: "100644" },
+        { status: "deleted", path: "api/c.ts", oldMode: "100644", newMode: "000000" },
+      ])
+    ).toEqual(["web/a.ts", "api/a.ts", "api/b.ts", "api/c.ts"]);
+  });
+});
+
+describe("getBranchStrategyName", () => {
+  test("defaults to worktree with a base", () => {
+    expect(getBranchStrategyName()).toBe("checkout");
+    expect(getBranchStrategyName(undefined, false, "release")).toBe("worktree");
+    expect(getBranchStrategyName("plumbing", false, "release")).toBe("plumbing");
+    expect(() => getBranchStrategyName("checkout", false, "release")).toThrow(
+      "Cannot use --base with --strategy checkout"
+    );
+  });
+});
+
+describe("getBaseBranchName", () => {
+  test("strips the remote of remote-tracking branches", () => {
+    expect(getBaseBranchName("origin/release")).toBe("release");
+    expect(getBaseBranchName("upstream/release", "upstream")).toBe("release");
+    expect(getBaseBranchName("release/2.0")).toBe("release/2.0");
+  });
+});
+
+describe("branch strategies", () => {
+  let repo: string;
+
+  const git = (...args: string[]): string => {
+    const result = spawnSync("git", args, { cwd: repo, encoding: "utf8" });
+    if (result.status !== 0) throw new Error(result.stderr);
+    return result.stdout.trim();
+  };
+
+  const write = (file: string, content: string | Buffer) => {
+    mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    writeFileSync(path.join(repo, file), content);
+  };
+
+  // Builds one branch per strategy in a separate process, since git.ts
+  // runs git in the directory it was loaded from
+  const buildBranches = (files: string[]) => {
+    const script = `
+      import { checkout, createBranchStrategy } from ${JSON.stringify(path.join(import.meta.dir, "git.ts"))};
+      for (const name of ["plumbing", "worktree", "checkout"]) {
+        const strategy = createBranchStrategy(name);
+        try {
+          await strategy.open("split/" + name, { base: "HEAD", exists: false });
+          await strategy.commit(${JSON.stringify(files)}, { message: "Split files", noVerify: true });
+        } finally {
+          await strategy.close();
+        }
+        if (strategy.usesCheckout) await checkout("main");
+        if (name === "worktree") console.log("INDEX " + (await Bun.$\`git write-tree\`.text()).trim());
+      }
+    `;
+    const result = spawnSync(process.execPath, ["-e", script], { cwd: repo, encoding: "utf8" });
+    if (result.status !== 0) throw new Error(result.stderr || result.stdout);
+    return result.stdout;
+  };
+
+  beforeAll(() => {
+    repo = mkdtempSync(path.join(tmpdir(), "cg-strategy-"));
+    git("init", "--quiet", "--initial-branch=main");
+    git("config", "user.name", "Test");
+    git("config", "user.email", "test@example.com");
+    git("config", "core.autocrlf", "false");
+
+    write("web/app.ts", "export const app = 1;\n");
+    write("web/old.ts", "export const old = 1;\n");
+    write("api/server.ts", "export const server = 1;\n");
+    write("docs/guide.md", "# Guide\n");
+    git("add", "-A");
+    git("commit", "--quiet", "-m", "Initial commit");
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  test("plumbing and worktree build the same trees as checkout", () => {
+    write("web/app.ts", "export const app = 2;\r\nno newline at end");
+    write("web/logo.png", Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0x0d, 0x0a, 0x1a]));
+    write("web/run.sh", "#!/bin/sh\necho run\n");
+    chmodSync(path.join(repo, "web/run.sh"), 0o755);
+    symlinkSync("app.ts", path.join(repo, "web/link.ts"));
+    write("web/new dir/ünïcode file.ts", "export const u = 1;\n");
+    rmSync(path.join(repo, "web/old.ts"));
+    write("api/server.ts", "export const server = 2;\n");
+    git("add", "-A");
+
+    const indexBefore = git("write-tree");
+    const output = buildBranches([
+      "web/app.ts",
+      "web/logo.png",
+      "web/run.sh",
+      "web/link.ts",
+      "web/new dir/ünïcode file.ts",
+      "web/old.ts",
+    ]);
+
+    // Neither plumbing nor worktree changed the user's index or HEAD
+    expect(output).toContain(`INDEX ${indexBefore}`);
+
+    const checkoutTree = git("rev-parse", "split/checkout^{tree}");
+    expect(git("rev-parse", "split/plumbing^{tree}")).toBe(checkoutTree);
+    expect(git("rev-parse", "split/worktree^{tree}")).toBe(checkoutTree);
+
+    // Files not passed to the strategies stay out of the branches
+    expect(git("show", "split/plumbing:api/server.ts")).toBe("export const server = 1;");
+    expect(git("ls-tree", "split/plumbing", "web/run.sh")).toStartWith("100755");
+    expect(git("ls-tree", "split/plumbing", "web/link.ts")).toStartWith("120000");
+
+    for (const name of ["plumbing", "worktree"]) {
+      expect(git("rev-parse", `split/${name}^`)).toBe(git("rev-parse", "main"));
+      expect(git("log", "-1", "--format=%B", `split/${name}`)).toBe("Split files");
+    }
+    expect(git("worktree", "list").split("\n")).toHaveLength(1);
+  });
+
+  test("plumbing and worktree merge the changes onto another base", () => {
+    git("reset", "--quiet", "--hard", "main");
+
+    // release: main with a new file and its own change to api/server.ts
+    const releaseWorktree = mkdtempSync(path.join(tmpdir(), "cg-release-"));
+    git("worktree", "add", "--quiet", "-b", "release", releaseWorktree, "main");
+    writeFileSync(path.join(releaseWorktree, "web/release.ts"), "export const release = 1;\n");
+    writeFileSync(path.join(releaseWorktree, "api/server.ts"), "export const server = 3;\n");
+    spawnSync("git", ["add", "-A"], { cwd: releaseWorktree });
+    spawnSync("git", ["commit", "--quiet", "-m", "Release"], { cwd: releaseWorktree });
+    git("worktree", "remove", "--force", releaseWorktree);
+
+    write("web/app.ts", "export const app = 2;\n");
+    write("api/server.ts", "export const server = 2;\n");
+    git("add", "-A");
+
+    const script = `
+      import { createBranchStrategy } from ${JSON.stringify(path.join(import.meta.dir, "git.ts"))};
+      for (const name of ["plumbing", "worktree"]) {
+        for (const [branch, files] of [["web", ["web/app.ts"]], ["api", ["api/server.ts"]]]) {
+          const strategy = createBranchStrategy(name);
+          try {
+            await strategy.open(\`base/\${name}-\${branch}\`, { base: "release", exists: false });
+            await strategy.commit(files, { message: "Split files", from: "HEAD" });
+            console.log(\`\${name} \${branch} OK\`);
+          } catch (error) {
+            console.log(\`\${name} \${branch} \${error}\`);
+          } finally {
+            await strategy.close();
+          }
+        }
+      }
+    `;
+    const result = spawnSync(process.execPath, ["-e", script], { cwd: repo, encoding: "utf8" });
+    if (result.status !== 0) throw new Error(result.stderr || result.stdout);
+
+    for (const name of ["plumbing", "worktree"]) {
+      expect(result.stdout).toContain(`${name} web OK`);
+      expect(result.stdout).toContain(
+        `${name} api Error: Commit failed: Error: Changes to api/server.ts conflict with the branch`
+      );
+
+      // The change is merged onto release, which keeps its own changes
+      expect(git("rev-parse", `base/${name}-web^`)).toBe(git("rev-parse", "release"));
+      expect(git("show", `base/${name}-web:web/app.ts`)).toBe("export const app = 2;");
+      expect(git("show", `base/${name}-web:web/release.ts`)).toBe("export const release = 1;");
+      expect(git("show", `base/${name}-web:api/server.ts`)).toBe("export const server = 3;");
+      expect(git("rev-parse", `base/${name}-api`)).toBe(git("rev-parse", "release"));
+    }
+    expect(git("worktree", "list").split("\n")).toHaveLength(1);
+  });
 });
@@ -1,8 +1,13 @@
 import simpleGit, { type SimpleGit } from "simple-git";
 import { log } from "../utils/logger";
 import fs from "fs/promises";
+import { createWriteStream } from "fs";
 import path from "path";
 import { spawn } from "child_process";
+import { Writable } from "stream";
+import { finished, pipeline } from "stream/promises";
+import { createHash } from "crypto";
+import { tmpdir } from "os";
 
 const git: SimpleGit = simpleGit();
 
@@ -11,6 +16,62 @@ export type CommitOptions = {
   noVerify?: boolean;
 };
 
+export type StrategyCommitOptions = CommitOptions & {
+  ref?: string; // Take the files from this ref instead of the index
+  // Merge the files' changes since this commit onto the branch instead of
+  // copying the files (for branches that start from another base)
+  from?: string;
+};
+
+export type BranchStrategyName = "checkout" | "worktree" | "plumbing";
+
+export const BRANCH_STRATEGIES: BranchStrategyName[] = ["checkout", "worktree", "plumbing"];
+
+/**
+ * Builds a branch from a set of files. Strategies differ in what they touch:
+ * - checkout: switches the working tree to the branch and commits there
+ * - worktree: commits in a temporary worktree (see addWorktree)
+ * - plumbing: builds the tree in a temporary index and writes the commit and
+ *   ref directly, without any checkout
+ */
+export type BranchStrategy = {
+  name: BranchStrategyName;
+  usesCheckout: boolean; // The branch is checked out in the user's working tree
+  worktree?: string; // Temporary worktree of the branch, once opened
+  // Create the branch at `base` (checkout always uses HEAD), or open the existing one
+  open: (branchName: string, options: { base: string; exists: boolean }) => Promise<void>;
+  // Commit the files, taken from the index or from `ref` (neither `ref` nor
+  // `from` is supported by checkout)
+  commit: (files: string[], options: StrategyCommitOptions) => Promise<void>;
+  // Remove temporary worktrees and index files, safe to call more than once
+  close: () => Promise<void>;
+};
+
+export type FileChangeStatus =
+  | "added"
+  | "modified"
+  | "deleted"
+  | "renamed"
+  | "copied"
+  | "type-changed";
+
+export type FileChange = {
+  status: FileChangeStatus;
+  path: string; // Path in the source (the new path of a rename or copy)
+  oldPath?: string; // Path in the base, for renames and copies
+  oldMode: string; // Mode in the base, "000000" for added files
+  newMode: string; // Mode in the source, "000000" for deleted files
+};
+
+const RAW_DIFF_STATUSES: Record<string, FileChangeStatus> = {
+  A: "added",
+  M: "modified",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  T: "type-changed",
+};
+
 export type PushOptions = {
   remote?: string;
   upstream?: string;
@@ -93,9 +154,10 @@ export const getChangedFiles = async (): Promise<string[]> => {
   const status = await git.status();
   // Return STAGED files (files added to git index)
   // This includes files with index status other than ' ' or '?'
+  // Renames list both paths, so the deletion of the old path is committed too
   return status.files
     .filter((file) => file.index !== " " && file.index !== "?")
-    .map((file) => file.path);
+    .flatMap((file) => (file.index === "R" && file.from ? [file.from, file.path] : [file.path]));
 };
 
 /**
@@ -125,7 +187,7 @@ export const getStagedFiles = async (): Promise<string[]> => {
   const status = await git.status();
   return status.files
     .filter((file) => file.index !== " " && file.index !== "?")
-    .map((file) => file.path);
+    .flatMap((file) => (file.index === "R" && file.from ? [file.from, file.path] : [file.path]));
 };
 
 /**
@@ -136,6 +198,18 @@ export const hasStagedChanges = async (): Promise<boolean> => {
   return stagedFiles.length > 0;
 };
 
+/**
+ * Get all files tracked by git, relative to the repository root
+ */
+export const getTrackedFiles = async (): Promise<string[]> => {
+  try {
+    const output = await git.raw(["ls-files", "-z", "--full-name", "--", ":/"]);
+    return output.split("\0").filter((file) => file.length > 0);
+  } catch (error) {
+    throw new Error(`Failed to list tracked files: ${error}`);
+  }
+};
+
 export const branchExists = async (branchName: string): Promise<boolean> => {
   try {
     const branches = await git.branch();
@@ -146,6 +220,33 @@ export const branchExists = async (branchName: string): Promise<boolean> => {
   }
 };
 
+/**
+ * Check if a name is a valid branch name (`git check-ref-format --branch`)
+ */
+export const isValidBranchName = async (branchName: string): Promise<boolean> => {
+  try {
+    await git.raw(["check-ref-format", "--branch", branchName]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get a short name for the git user: the local part of user.email, or user.name
+ */
+export const getGitUser = async (): Promise<string | null> => {
+  for (const key of ["user.email", "user.name"]) {
+    try {
+      const value = (await git.raw(["config", "--get", key])).trim();
+      if (value) return key === "user.email" ? value.split("@")[0] : value;
+    } catch {
+      // Not configured
+    }
+  }
+  return null;
+};
+
 export const createBranch = async (branchName: string): Promise<void> => {
   log.info(`Switching to a new local branch: "${branchName}"`);
   try {
@@ -232,6 +333,11 @@ export const restoreFiles = async (files: string[]): Promise<void> => {
   }
 };
 
+/**
+ * Commit files as they are in the working tree (`git commit <files>`). Set
+ * aside their unstaged changes first (see setAsideUnstagedChanges) to commit
+ * only what is staged.
+ */
 export const commitChanges = async (
   files: string[],
   { message, noVerify = false }: CommitOptions
@@ -249,6 +355,101 @@ export const commitChanges = async (
   }
 };
 
+export type UnstagedChanges = {
+  files: string[]; // Staged files that also had unstaged changes
+  patch: string; // Patch file holding the unstaged changes
+  blobs: Record<string, string>; // Staged blob of each file, to rebuild files that are gone
+};
+
+/**
+ * Set aside the unstaged changes of staged files, so the working tree holds
+ * exactly what is staged: committing files with the checkout strategy takes
+ * their working tree content. The changes are kept in a patch file until
+ * restoreUnstagedChanges() puts them back.
+ * @returns The changes set aside, or null if the files had none
+ */
+export const setAsideUnstagedChanges = async (
+  files: string[]
+): Promise<UnstagedChanges | null> => {
+  const root = await getRepoRoot();
+  const wanted = new Set(files);
+  const changed = (await runGit(["diff", "--name-only", "-z"], { cwd: root }))
+    .split("\0")
+    .filter((file) => wanted.has(file));
+
+  if (changed.length === 0) return null;
+
+  const patch = path.join(await fs.mkdtemp(path.join(tmpdir(), "cg-unstaged-")), "unstaged.patch");
+  await runGit(
+    ["--literal-pathspecs", "diff", "--binary", `--output=${patch}`, "--", ...changed],
+    { cwd: root }
+  );
+  await runGit(["--literal-pathspecs", "checkout", "--", ...changed], { cwd: root });
+  const entries = await readFileEntries(changed);
+
+  log.info(
+    `Set aside unstaged changes of ${changed.length} partially staged file${changed.length !== 1 ? "s" : ""}`
+  );
+  return {
+    files: changed,
+    patch,
+    blobs: Object.fromEntries(changed.map((file) => [file, entries.get(file)!.hash])),
+  };
+};
+
+/**
+ * Put back unstaged changes set aside by setAsideUnstagedChanges(). When the
+ * files changed since (their staged changes moved to a branch), the changes
+ * are merged in, leaving conflict markers where they overlap. If they cannot
+ * be put back at all, the patch file is kept and its path reported.
+ * @returns Whether the changes were put back
+ */
+export const restoreUnstagedChanges = async ({
+  files,
+  patch,
+  blobs,
+}: UnstagedChanges): Promise<boolean> => {
+  const root = await getRepoRoot();
+
+  // Files that are gone (new files whose staged version moved to a branch)
+  // are rebuilt from that version first, so the changes apply to them
+  const missing: string[] = [];
+  for (const file of files) {
+    const filePath = path.join(root, file);
+    if (!(await fs.lstat(filePath).catch(() => null))) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      missing.push(file);
+    }
+  }
+  await streamBlobs(
+    missing.map((file) => blobs[file]),
+    (index) => createWriteStream(path.join(root, missing[index]))
+  );
+
+  try {
+    await runGit(["apply", "--whitespace=nowarn", patch], { cwd: root });
+  } catch {
+    try {
+      await runGit(["apply", "--3way", "--whitespace=nowarn", patch], { cwd: root });
+    } catch (error) {
+      if (!String(error).includes("with conflicts")) {
+        log.warn(`Could not put back the unstaged changes of ${files.join(", ")}: ${error}`);
+        log.info(`They are saved in ${patch}. To apply them, run:`);
+        log.info(`  git apply --3way ${patch}`);
+        return false;
+      }
+      log.warn(`Unstaged changes conflicted with the committed ones, see the conflict markers in:`);
+      files.forEach((file) => log.warn(`  - ${file}`));
+    }
+    // --3way also applies to the index: leave the changes unstaged
+    await runGit(["--literal-pathspecs", "reset", "--quiet", "--", ...files], { cwd: root });
+  }
+
+  await fs.rm(path.dirname(patch), { recursive: true, force: true });
+  log.info(`Restored unstaged changes of ${files.length} file${files.length !== 1 ? "s" : ""}`);
+  return true;
+};
+
 export const getCurrentBranch = async (): Promise<string> => {
   try {
     return await git.revparse(["--abbrev-ref", "HEAD"]);
@@ -322,6 +523,81 @@ export const hasRemoteTracking = async (branchName: string): Promise<boolean> =>
   }
 };
 
+/**
+ * Compute the git blob hash of some content (same as `git hash-object`).
+ */
+export const hashBlob = (content: string): string =>
+  createHash("sha1")
+    .update(`blob ${Buffer.byteLength(content)}\0`)
+    .update(content)
+    .digest("hex");
+
+/**
+ * Get the absolute path of the repository root
+ */
+export const getRepoRoot = async (): Promise<string> => {
+  try {
+    return (await git.revparse(["--show-toplevel"])).trim();
+  } catch (error) {
+    throw new Error(`Failed to get repository root: ${error}`);
+  }
+};
+
+/**
+ * Check if a ref (branch, tag or commit) resolves to a commit
+ */
+export const refExists = async (ref: string): Promise<boolean> => {
+  try {
+    const result = await git.raw(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    return result.trim().length > 0;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the `git diff --stat` of a branch against its base, or of its last
+ * commit when the base cannot be resolved
+ */
+export const getDiffStat = async (head: string, base?: string): Promise<string> => {
+  try {
+    const output =
+      base && (await refExists(base))
+        ? await git.raw(["diff", "--stat", `${base}...${head}`])
+        : await git.raw(["show", "--stat", "--format=", head]);
+    return output.trimEnd();
+  } catch (error) {
+    throw new Error(`Failed to get diffstat of ${head}: ${error}`);
+  }
+};
+
+/**
+ * List the files in a git ref's tree, relative to the repository root
+ */
+export const listFilesAtRef = async (ref: string): Promise<string[]> => {
+  try {
+    const output = await git.raw(["ls-tree", "-r", "-z", "--name-only", ref]);
+    return output.split("\0").filter((file) => file.length > 0);
+  } catch (error) {
+    throw new Error(`Failed to list files at ${ref}: ${error}`);
+  }
+};
+
+/**
+ * Read a file's content at a git ref (path relative to the repository root).
+ * Returns null if the file does not exist at that ref.
+ */
+export const readFileAtRef = async (
+  ref: string,
+  filePath: string
+): Promise<string | null> => {
+  try {
+    return await git.show([`${ref}:${filePath}`]);
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Get the default branch of the repository
  */
@@ -387,35 +663,136 @@ export const getBaseBranch = async (
 };
 
 /**
- * Get changed files between two git references (branches/commits)
- * If target is not provided, compares source against its base branch
+ * Parse the output of `git diff --raw -z`.
  */
-export const getChangedFilesBetween = async (
+export const parseRawDiff = (output: string): FileChange[] => {
+  const fields = output.split("\0");
+  const changes: FileChange[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    if (!fields[i].startsWith(":")) continue;
+
+    // ":<old mode> <new mode> <old hash> <new hash> <status>", then the path(s)
+    const [oldMode, newMode, , , score] = fields[i].slice(1).split(" ");
+    const status = RAW_DIFF_STATUSES[score[0]] ?? "modified";
+    if (status === "renamed" || status === "copied") {
+      changes.push({ status, oldPath: fields[i + 1], path: fields[i + 2], oldMode, newMode });
+      i += 2;
+    } else {
+      changes.push({ status, path: fields[i + 1], oldMode, newMode });
+      i += 1;
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Get the paths touched by changes. Both sides of a rename are included, so
+ * the deletion of the old path is carried over and attributed to its owners.
+ */
+export const changedPaths = (changes: FileChange[]): string[] =>
+  changes.flatMap((change) =>
+    change.status === "renamed" && change.oldPath ? [change.oldPath, change.path] : [change.path]
+  );
+
+/**
+ * Get the changes between two git references (branches/commits), with
+ * renames detected. If target is not provided, compares source against its
+ * base branch, found among the candidate bases.
+ */
+export const getFileChangesBetween = async (
   source: string,
-  target?: string
-): Promise<string[]> => {
+  target?: string,
+  candidateBases?: string[]
+): Promise<FileChange[]> => {
   try {
     let compareTarget = target;
 
     // If no target provided, find the base branch
     if (!compareTarget) {
-      compareTarget = await getBaseBranch(source);
+      compareTarget = await getBaseBranch(source, candidateBases);
     }
 
     // Get the merge-base (common ancestor)
     const mergeBase = await git.raw(['merge-base', source, compareTarget]);
     const baseCommit = mergeBase.trim();
 
-    // Get files changed between merge-base and source
-    const diff = await git.diff(['--name-only', `${baseCommit}..${source}`]);
+    // Get the changes between merge-base and source
+    const diff = await git.raw(['diff', '--raw', '-z', '-M', '--no-abbrev', baseCommit, source]);
+    return parseRawDiff(diff);
+  } catch (error) {
+    throw new Error(`Failed to get changed files between ${source} and ${target || 'base'}: ${error}`);
+  }
+};
 
-    if (!diff.trim()) {
-      return [];
-    }
+/**
+ * Get changed files between two git references (branches/commits)
+ * If target is not provided, compares source against its base branch
+ */
+export const getChangedFilesBetween = async (
+  source: string,
+  target?: string,
+  candidateBases?: string[]
+): Promise<string[]> =>
+  changedPaths(await getFileChangesBetween(source, target, candidateBases));
+
+/**
+ * Get the common ancestor of two refs
+ */
+export const getMergeBase = async (a: string, b: string): Promise<string> =>
+  (await git.raw(["merge-base", a, b])).trim();
+
+/**
+ * Resolve a --base ref: a local ref, or else the branch on the remote.
+ * @returns The ref new branches are created at
+ */
+export const resolveBaseRef = async (base: string, remote = "origin"): Promise<string> => {
+  for (const ref of [base, `${remote}/${base}`]) {
+    if (await refExists(ref)) return ref;
+  }
+  throw new Error(`Base "${base}" not found locally or on ${remote}`);
+};
+
+/**
+ * Get the branch a --base ref names on the remote, e.g. to target PRs at it
+ * (`origin/release` → `release`)
+ */
+export const getBaseBranchName = (base: string, remote = "origin"): string =>
+  base.startsWith(`${remote}/`) ? base.slice(remote.length + 1) : base;
+
+export type CommitFiles = {
+  author: string; // Author email
+  files: string[]; // Files changed by the commit
+};
 
-    return diff.trim().split('\n').filter(file => file.length > 0);
+/**
+ * Get the author and changed files of every non-merge commit reachable from HEAD
+ */
+export const getCommitHistory = async (
+  options: { since?: string } = {}
+): Promise<CommitFiles[]> => {
+  try {
+    const output = await git.raw([
+      "-c",
+      "core.quotePath=false",
+      "log",
+      "--no-merges",
+      "--no-renames",
+      "--name-only",
+      "--format=%x1e%ae",
+      ...(options.since ? [`--since=${options.since}`] : []),
+    ]);
+
+    return output
+      .split("\x1e")
+      .filter((entry) => entry.trim().length > 0)
+      .map((entry) => {
+        const [author, ...files] = entry.split("\n");
+        return { author: author.trim(), files: files.filter((file) => file.length > 0) };
+      });
   } catch (error) {
-    throw new Error(`Failed to get changed files between ${source} and ${target || 'base'}: ${error}`);
+    throw new Error(`Failed to read commit history: ${error}`);
   }
 };
 
@@ -434,33 +811,636 @@ export const stageFiles = async (files: string[]): Promise<void> => {
 };
 
 /**
- * Extract files from a specific git reference to working directory (unstaged)
+ * Reproduce files as they are in a ref in the working directory: contents,
+ * executable bits and symlinks are written, and files that do not exist in
+ * the ref (deleted or renamed away) are removed.
+ *
+ * Blobs are streamed to disk byte for byte. Files with a `filter` attribute
+ * (such as Git LFS pointers) go through their smudge filter, as on checkout.
  */
 export const extractFilesFromRef = async (
   ref: string,
   files: string[]
 ): Promise<void> => {
   try {
+    const entries = await readFileEntries(files, ref);
+    const root = await getRepoRoot();
+    const filtered = await getFilteredFiles(
+      files.filter((file) => entries.get(file)?.mode.startsWith("100"))
+    );
+    const raw: { hash: string; open: () => Writable }[] = [];
+
     for (const file of files) {
-      try {
-        // Get file content from the ref
-        const content = await git.show([`${ref}:${file}`]);
+      const filePath = path.join(root, file);
+      const entry = entries.get(file);
 
-        // Write to working directory
-        const filePath = path.join(process.cwd(), file);
-        const dirPath = path.dirname(filePath);
+      if (!entry) {
+        await fs.rm(filePath, { force: true });
+        continue;
+      }
+      if (entry.mode === "160000") {
+        log.warn(`Skipping submodule ${file}`);
+        continue;
+      }
 
-        // Ensure directory exists
-        await fs.mkdir(dirPath, { recursive: true });
+      // Ensure directory exists, and replace what is there (it may be a symlink)
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.rm(filePath, { force: true });
 
-        // Write file
-        await fs.writeFile(filePath, content);
-      } catch (error) {
-        // File might have been deleted in the ref, skip it
-        log.warn(`Could not extract ${file} from ${ref}: ${error}`);
+      if (entry.mode === "120000") {
+        raw.push({
+          hash: entry.hash,
+          open: () => collectBlob((target) => fs.symlink(target, filePath)),
+        });
+        continue;
+      }
+
+      const fileMode = entry.mode === "100755" ? 0o777 : 0o666;
+      if (filtered.has(file)) {
+        await writeFilteredBlob(entry.hash, file, filePath, fileMode);
+      } else {
+        raw.push({ hash: entry.hash, open: () => createWriteStream(filePath, { mode: fileMode }) });
       }
     }
+
+    await streamBlobs(raw.map(({ hash }) => hash), (index) => raw[index].open());
   } catch (error) {
     throw new Error(`Failed to extract files from ${ref}: ${error}`);
   }
 };
+
+/**
+ * Run a git command in a directory, writing the input to its stdin
+ */
+const runGit = (
+  args: string[],
+  { cwd, input, env }: { cwd?: string; input?: string; env?: NodeJS.ProcessEnv } = {}
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const gitProcess = spawn("git", args, {
+      cwd,
+      env: env ? { ...process.env, ...env } : undefined,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    // Decoded once at the end, so multi-byte characters split across
+    // chunks are not mangled
+    const chunks: Buffer[] = [];
+    let errorOutput = "";
+
+    gitProcess.stdout.on("data", (data: Buffer) => {
+      chunks.push(data);
+    });
+
+    gitProcess.stderr.on("data", (data) => {
+      errorOutput += data.toString();
+    });
+
+    gitProcess.on("close", (code) => {
+      const output = Buffer.concat(chunks).toString();
+      if (code === 0) {
+        resolve(output);
+      } else {
+        reject(new Error(errorOutput.trim() || output.trim() || `git ${args[0]} exited with code ${code}`));
+      }
+    });
+
+    gitProcess.on("error", (error) => {
+      reject(new Error(`Failed to execute git: ${error.message}`));
+    });
+
+    gitProcess.stdin.end(input ?? "");
+  });
+
+/**
+ * Read the mode and blob of files from the index, or from a ref's tree.
+ * Files that do not exist there (deleted files) are left out.
+ */
+const readFileEntries = async (
+  files: string[],
+  ref?: string
+): Promise<Map<string, { mode: string; hash: string }>> => {
+  const wanted = new Set(files);
+  const entries = new Map<string, { mode: string; hash: string }>();
+  const output = ref
+    ? await runGit(["ls-tree", "-r", "-z", "--full-tree", ref], { cwd: await getRepoRoot() })
+    : await runGit(["ls-files", "--stage", "-z"], { cwd: await getRepoRoot() });
+
+  for (const record of output.split("\0")) {
+    const tab = record.indexOf("\t");
+    if (tab === -1) continue;
+    const file = record.slice(tab + 1);
+    if (!wanted.has(file)) continue;
+
+    // ls-tree: "<mode> <type> <hash>", ls-files: "<mode> <hash> <stage>"
+    const [mode, second, third] = record.slice(0, tab).split(" ");
+    if (!ref && third !== "0") {
+      throw new Error(`${file} has merge conflicts`);
+    }
+    entries.set(file, { mode, hash: ref ? third : second });
+  }
+
+  return entries;
+};
+
+/**
+ * Get the files that have a `filter` attribute (e.g. `filter=lfs`), whose
+ * content has to go through the filter's smudge command to be checked out.
+ */
+const getFilteredFiles = async (files: string[]): Promise<Set<string>> => {
+  if (files.length === 0) return new Set();
+
+  const output = await runGit(["check-attr", "-z", "--stdin", "filter"], {
+    cwd: await getRepoRoot(),
+    input: files.map((file) => `${file}\0`).join(""),
+  });
+
+  // "<path>\0filter\0<value>\0" for each file
+  const fields = output.split("\0");
+  const filtered = new Set<string>();
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    if (fields[i + 2] !== "unspecified" && fields[i + 2] !== "unset") {
+      filtered.add(fields[i]);
+    }
+  }
+  return filtered;
+};
+
+/**
+ * Stream blobs out of a single `git cat-file --batch`, with no decoding. The
+ * content of each blob is piped into the stream `open` returns for it, so
+ * large files are never held in memory.
+ */
+const streamBlobs = async (
+  hashes: string[],
+  open: (index: number) => Writable
+): Promise<void> => {
+  if (hashes.length === 0) return;
+
+  const catFile = spawn("git", ["cat-file", "--batch"], {
+    cwd: await getRepoRoot(),
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+
+  return new Promise((resolve, reject) => {
+    const pending: Promise<void>[] = [];
+    let index = 0;
+    let header = Buffer.alloc(0);
+    let target: Writable | null = null;
+    let remaining = 0; // Bytes of the current blob still to come
+    let trailer = false; // Whether the newline after a blob is still to come
+    let errorOutput = "";
+
+    const fail = (error: Error) => {
+      catFile.kill();
+      reject(error);
+    };
+
+    const endBlob = () => {
+      target?.end();
+      target = null;
+      trailer = true;
+    };
+
+    // Each blob comes as "<hash> blob <size>\n<content>\n"
+    catFile.stdout.on("data", (chunk: Buffer) => {
+      let offset = 0;
+      while (offset < chunk.length) {
+        if (target) {
+          const content = chunk.subarray(offset, offset + remaining);
+          offset += content.length;
+          remaining -= content.length;
+          if (!target.write(content)) {
+            // An ended stream finishes instead of draining
+            catFile.stdout.pause();
+            target.once(remaining === 0 ? "finish" : "drain", () => catFile.stdout.resume());
+          }
+          if (remaining === 0) endBlob();
+          continue;
+        }
+        if (trailer) {
+          offset++;
+          trailer = false;
+          continue;
+        }
+
+        const newline = chunk.indexOf(10, offset);
+        if (newline === -1) {
+          header = Buffer.concat([header, chunk.subarray(offset)]);
+          break;
+        }
+        const line = Buffer.concat([header, chunk.subarray(offset, newline)]).toString();
+        header = Buffer.alloc(0);
+        offset = newline + 1;
+
+        const [, type, size] = line.split(" ");
+        if (type !== "blob" || index >= hashes.length) {
+          fail(new Error(`Unexpected object from git cat-file: ${line}`));
+          return;
+        }
+        target = open(index++);
+        pending.push(finished(target).catch(fail));
+        remaining = Number(size);
+        if (remaining === 0) endBlob();
+      }
+    });
+
+    catFile.stderr.on("data", (data) => {
+      errorOutput += data.toString();
+    });
+
+    catFile.on("close", (code) => {
+      if (code !== 0 || index < hashes.length) {
+        reject(new Error(errorOutput.trim() || `git cat-file exited with code ${code}`));
+        return;
+      }
+      Promise.all(pending).then(() => resolve(), reject);
+    });
+
+    catFile.on("error", (error) => {
+      reject(new Error(`Failed to execute git: ${error.message}`));
+    });
+
+    catFile.stdin.end(hashes.map((hash) => `${hash}\n`).join(""));
+  });
+};
+
+/**
+ * A stream that collects a blob in memory and hands it over once complete,
+ * for small blobs such as symlink targets.
+ */
+const collectBlob = (onComplete: (content: Buffer) => Promise<void>): Writable => {
+  const chunks: Buffer[] = [];
+  return new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    },
+    final(callback) {
+      onComplete(Buffer.concat(chunks)).then(() => callback(), callback);
+    },
+  });
+};
+
+/**
+ * Stream a blob through the smudge filter of its path into a file.
+ */
+const writeFilteredBlob = async (
+  hash: string,
+  file: string,
+  filePath: string,
+  mode: number
+): Promise<void> => {
+  const catFile = spawn("git", ["cat-file", "--filters", `--path=${file}`, hash], {
+    cwd: await getRepoRoot(),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  let errorOutput = "";
+  catFile.stderr.on("data", (data) => {
+    errorOutput += data.toString();
+  });
+
+  const exited = new Promise<void>((resolve, reject) => {
+    catFile.on("close", (code) =>
+      code === 0
+        ? resolve()
+        : reject(new Error(errorOutput.trim() || `git cat-file exited with code ${code}`))
+    );
+    catFile.on("error", (error) => reject(new Error(`Failed to execute git: ${error.message}`)));
+  });
+
+  await Promise.all([pipeline(catFile.stdout, createWriteStream(filePath, { mode })), exited]);
+};
+
+/**
+ * Write the entries of files from the current index (or a ref) into another
+ * index, given by the cwd of a worktree or GIT_INDEX_FILE. Files that do not
+ * exist in the source are removed.
+ */
+const updateIndexEntries = async (
+  files: string[],
+  ref: string | undefined,
+  target: { cwd?: string; env?: NodeJS.ProcessEnv }
+): Promise<{ copied: string[]; deleted: string[] }> => {
+  const entries = await readFileEntries(files, ref);
+  const copied = files.filter((file) => entries.has(file));
+  const deleted = files.filter((file) => !entries.has(file));
+
+  if (copied.length > 0) {
+    await runGit(["update-index", "-z", "--index-info"], {
+      ...target,
+      input: copied
+        .map((file) => `${entries.get(file)!.mode} ${entries.get(file)!.hash}\t${file}\0`)
+        .join(""),
+    });
+  }
+  if (deleted.length > 0) {
+    await runGit(["update-index", "-z", "--force-remove", "--stdin"], {
+      ...target,
+      input: deleted.map((file) => `${file}\0`).join(""),
+    });
+  }
+
+  return { copied, deleted };
+};
+
+/**
+ * Merge the changes files went through between two commits (or between a
+ * commit and the index) into another index, given by the cwd of a worktree
+ * or GIT_INDEX_FILE. `cached` leaves the working tree of the target alone.
+ * Changes that overlap with what the target has are conflicts.
+ */
+const mergeChanges = async (
+  files: string[],
+  { from, ref }: { from: string; ref?: string },
+  target: { cwd?: string; env?: NodeJS.ProcessEnv },
+  { cached }: { cached: boolean }
+): Promise<void> => {
+  const root = await getRepoRoot();
+  const patchDir = await fs.mkdtemp(path.join(tmpdir(), "cg-changes-"));
+  const patch = path.join(patchDir, "changes.patch");
+
+  try {
+    // Full blob hashes let the 3-way merge fall back to the blobs
+    await runGit(
+      [
+        "--literal-pathspecs",
+        "diff",
+        ...(ref ? [] : ["--cached"]),
+        "--binary",
+        "--full-index",
+        "--no-renames",
+        `--output=${patch}`,
+        from,
+        ...(ref ? [ref] : []),
+        "--",
+        ...files,
+      ],
+      { cwd: root }
+    );
+    if ((await fs.stat(patch)).size === 0) return;
+
+    try {
+      await runGit(
+        ["apply", "--3way", ...(cached ? ["--cached"] : []), "--whitespace=nowarn", patch],
+        { cwd: target.cwd ?? root, env: target.env }
+      );
+    } catch (error) {
+      const conflicts = (
+        await runGit(["ls-files", "--unmerged", "-z"], { cwd: target.cwd ?? root, env: target.env })
+      )
+        .split("\0")
+        .map((record) => record.slice(record.indexOf("\t") + 1))
+        .filter((file, index, all) => file && all.indexOf(file) === index);
+      if (conflicts.length === 0) throw error;
+      throw new Error(`Changes to ${conflicts.join(", ")} conflict with the branch`);
+    }
+  } finally {
+    await fs.rm(patchDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Create a temporary worktree for a branch, leaving the current checkout alone.
+ * A new branch is created at `base`; without a base, the existing branch is checked out.
+ * @returns The path of the worktree
+ */
+export const addWorktree = async (
+  branchName: string,
+  base?: string
+): Promise<string> => {
+  const worktreePath = await fs.mkdtemp(path.join(tmpdir(), "cg-worktree-"));
+  try {
+    log.info(`Creating worktree for "${branchName}" at ${worktreePath}`);
+    await runGit([
+      "worktree",
+      "add",
+      "--quiet",
+      ...(base ? ["-b", branchName, worktreePath, base] : [worktreePath, branchName]),
+    ]);
+    return worktreePath;
+  } catch (error) {
+    await fs.rm(worktreePath, { recursive: true, force: true });
+    throw new Error(`Failed to create worktree for "${branchName}": ${error}`);
+  }
+};
+
+/**
+ * Remove a temporary worktree and its directory
+ */
+export const removeWorktree = async (worktreePath: string): Promise<void> => {
+  try {
+    await runGit(["worktree", "remove", "--force", worktreePath]);
+  } catch (error) {
+    log.warn(`Could not remove worktree ${worktreePath}: ${error}`);
+  } finally {
+    await fs.rm(worktreePath, { recursive: true, force: true });
+    await runGit(["worktree", "prune"]).catch(() => undefined);
+  }
+};
+
+/**
+ * Copy files into a worktree's index and working tree, from the current index
+ * or from a ref. Blobs are shared between worktrees, so content and modes are
+ * copied exactly. Files that do not exist in the source are deleted.
+ */
+export const copyFilesToWorktree = async (
+  worktreePath: string,
+  files: string[],
+  ref?: string
+): Promise<void> => {
+  try {
+    const { copied, deleted } = await updateIndexEntries(files, ref, { cwd: worktreePath });
+
+    if (copied.length > 0) {
+      await runGit(["checkout-index", "--force", "-z", "--stdin"], {
+        cwd: worktreePath,
+        input: copied.map((file) => `${file}\0`).join(""),
+      });
+    }
+    for (const file of deleted) {
+      await fs.rm(path.join(worktreePath, file), { force: true });
+    }
+  } catch (error) {
+    throw new Error(`Failed to copy files to worktree: ${error}`);
+  }
+};
+
+/**
+ * Commit the staged changes of a worktree
+ */
+export const commitInWorktree = async (
+  worktreePath: string,
+  { message, noVerify = false }: CommitOptions
+): Promise<void> => {
+  try {
+    log.info(`Running commit with message: "${message}"`);
+    await runGit(["commit", "--quiet", "-m", message, ...(noVerify ? ["--no-verify"] : [])], {
+      cwd: worktreePath,
+    });
+    log.info("Commit finished successfully.");
+  } catch (error) {
+    log.error(`Failed to commit changes: ${error}`);
+    throw new Error(`Commit failed: ${error}`);
+  }
+};
+
+/**
+ * Commit files onto a branch without touching HEAD, the index or the working
+ * tree: the branch's tree is read into a temporary index, the files' entries
+ * are written over it (or their changes merged in), and the commit and ref
+ * are written directly.
+ * Commit hooks do not run.
+ */
+export const commitWithPlumbing = async (
+  branchName: string,
+  files: string[],
+  { message, ref, from }: StrategyCommitOptions
+): Promise<void> => {
+  const indexDir = await fs.mkdtemp(path.join(tmpdir(), "cg-index-"));
+  const env = { GIT_INDEX_FILE: path.join(indexDir, "index") };
+  const branchRef = `refs/heads/${branchName}`;
+
+  try {
+    log.info(`Running commit with message: "${message}"`);
+    const parent = (await runGit(["rev-parse", "--verify", `${branchRef}^{commit}`])).trim();
+    const parentTree = (await runGit(["rev-parse", `${parent}^{tree}`])).trim();
+
+    await runGit(["read-tree", parent], { env });
+    if (from) {
+      await mergeChanges(files, { from, ref }, { env }, { cached: true });
+    } else {
+      await updateIndexEntries(files, ref, { env });
+    }
+    const tree = (await runGit(["write-tree"], { env })).trim();
+
+    if (tree === parentTree) {
+      throw new Error("nothing to commit, the files are unchanged on the branch");
+    }
+
+    // Clean up the message like `git commit -m` does
+    const cleanMessage = await runGit(["stripspace"], { input: message });
+    const commit = (
+      await runGit(["commit-tree", tree, "-p", parent, "-F", "-"], { input: cleanMessage })
+    ).trim();
+    // Only move the branch if nothing else did in the meantime
+    await runGit(["update-ref", "-m", `commit: ${message.split("\n")[0]}`, branchRef, commit, parent]);
+    log.info("Commit finished successfully.");
+  } catch (error) {
+    log.error(`Failed to commit changes: ${error}`);
+    throw new Error(`Commit failed: ${error}`);
+  } finally {
+    await fs.rm(indexDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Get the branch strategy to use, with --worktree as a shorthand for
+ * --strategy worktree. Branches cut from a --base other than HEAD default to
+ * the worktree strategy, since checkout can only build on HEAD.
+ */
+export const getBranchStrategyName = (
+  strategy?: string,
+  worktree?: boolean,
+  base?: string
+): BranchStrategyName => {
+  if (strategy && !BRANCH_STRATEGIES.includes(strategy as BranchStrategyName)) {
+    throw new Error(
+      `Invalid strategy "${strategy}" (expected one of: ${BRANCH_STRATEGIES.join(", ")})`
+    );
+  }
+  if (worktree && strategy && strategy !== "worktree") {
+    throw new Error(`Cannot use --worktree with --strategy ${strategy}`);
+  }
+  if (base && strategy === "checkout") {
+    throw new Error("Cannot use --base with --strategy checkout");
+  }
+  return (
+    (strategy as BranchStrategyName | undefined) ?? (worktree || base ? "worktree" : "checkout")
+  );
+};
+
+/**
+ * Describe a branch strategy for the dry-run preview.
+ */
+export const describeBranchStrategy = (name: BranchStrategyName): string =>
+  ({
+    checkout: "checkout (switches branches in your working tree)",
+    worktree: "worktree (checkout and index stay unchanged)",
+    plumbing: "plumbing (no checkout, commit hooks do not run)",
+  })[name];
+
+/**
+ * Create the strategy that builds branches (see BranchStrategy).
+ */
+export const createBranchStrategy = (name: BranchStrategyName): BranchStrategy => {
+  if (name === "worktree") {
+    const strategy: BranchStrategy = {
+      name,
+      usesCheckout: false,
+      open: async (branchName, { base, exists }) => {
+        strategy.worktree = await addWorktree(branchName, exists ? undefined : base);
+      },
+      commit: async (files, { ref, from, ...options }) => {
+        if (from) {
+          try {
+            await mergeChanges(files, { from, ref }, { cwd: strategy.worktree }, { cached: false });
+          } catch (error) {
+            throw new Error(`Commit failed: ${error}`);
+          }
+        } else {
+          await copyFilesToWorktree(strategy.worktree!, files, ref);
+        }
+        await commitInWorktree(strategy.worktree!, options);
+      },
+      close: async () => {
+        if (strategy.worktree) {
+          await removeWorktree(strategy.worktree);
+          strategy.worktree = undefined;
+        }
+      },
+    };
+    return strategy;
+  }
+
+  if (name === "plumbing") {
+    let branch = "";
+    return {
+      name,
+      usesCheckout: false,
+      open: async (branchName, { base, exists }) => {
+        if (exists && (await getCurrentBranch()) === branchName) {
+          throw new Error(
+            `Branch "${branchName}" is checked out, so the plumbing strategy cannot add to it`
+          );
+        }
+        if (!exists) {
+          log.info(`Creating new branch "${branchName}" at ${base}`);
+          await runGit(["branch", "--no-track", branchName, base]);
+        }
+        branch = branchName;
+      },
+      commit: (files, options) => commitWithPlumbing(branch, files, options),
+      close: async () => undefined,
+    };
+  }
+
+  return {
+    name,
+    usesCheckout: true,
+    open: (branchName, { exists }) =>
+      exists ? checkout(branchName) : createBranch(branchName),
+    commit: async (files, { ref, from, ...options }) => {
+      if (ref) {
+        throw new Error("The checkout strategy commits from the index, not from a ref");
+      }
+      if (from) {
+        throw new Error("The checkout strategy cannot merge changes onto another base");
+      }
+      await commitChanges(files, options);
+    },
+    close: async () => undefined,
+  };
+};
+
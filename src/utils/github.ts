@@ -1,6 +1,8 @@
 import { spawn } from "child_process";
 import { readFile } from "fs/promises";
 import { log } from "./logger";
+import { getOwnerOverride } from "./config";
+import { resolveReviewers } from "./teams";
 
 export type CreatePROptions = {
   title: string;
@@ -8,6 +10,9 @@ export type CreatePROptions = {
   draft?: boolean;
   base?: string;
   head?: string;
+  reviewers?: string[]; // GitHub logins or org/team slugs to request reviews from
+  labels?: string[];
+  assignees?: string[]; // GitHub logins
 };
 
 export type PRTemplate = {
@@ -65,7 +70,16 @@ export const findPRTemplate = async (): Promise<PRTemplate | null> => {
 export const createPullRequest = async (
   options: CreatePROptions
 ): Promise<{ url: string; number: number } | null> => {
-  const { title, body, draft = false, base = "main", head } = options;
+  const {
+    title,
+    body,
+    draft = false,
+    base = "main",
+    head,
+    reviewers = [],
+    labels = [],
+    assignees = [],
+  } = options;
 
   if (!(await isGitHubCliInstalled())) {
     throw new Error(
@@ -91,6 +105,18 @@ export const createPullRequest = async (
     args.push("--head", head);
   }
 
+  if (reviewers.length > 0) {
+    args.push("--reviewer", reviewers.join(","));
+  }
+
+  if (labels.length > 0) {
+    args.push("--label", labels.join(","));
+  }
+
+  if (assignees.length > 0) {
+    args.push("--assignee", assignees.join(","));
+  }
+
   return new Promise((resolve, reject) => {
     const process = spawn("gh", args, { stdio: "pipe" });
 
@@ -137,15 +163,58 @@ export const createPullRequest = async (
   });
 };
 
+/**
+ * Update the body of an existing pull request using GitHub CLI
+ */
+export const updatePullRequestBody = async (
+  prNumber: number,
+  body: string
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const process = spawn("gh", ["pr", "edit", String(prNumber), "--body", body], {
+      stdio: "pipe",
+    });
+
+    let errorOutput = "";
+
+    process.stderr.on("data", (data) => {
+      errorOutput += data.toString();
+    });
+
+    process.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Failed to update pull request #${prNumber}: ${errorOutput}`));
+      }
+    });
+
+    process.on("error", (error) => {
+      reject(new Error(`Failed to execute gh command: ${error.message}`));
+    });
+  });
+};
+
 /**
  * Create PR with template if available
  * If prBody is provided, it is used directly instead of searching for a template file.
+ * Owners that are not valid GitHub reviewers are expanded into individual
+ * reviewers using the team directory.
+ * Owner overrides from the config (base, draft, labels, reviewers, assignees)
+ * take precedence over the given options, so the PR returned says whether it
+ * was opened as a draft.
  */
 export const createPRWithTemplate = async (
   title: string,
   branchName: string,
-  options: { draft?: boolean; base?: string; prBody?: string } = {}
-): Promise<{ url: string; number: number } | null> => {
+  options: {
+    draft?: boolean;
+    base?: string;
+    prBody?: string;
+    owners?: string[];
+    ownerGroup?: string;
+  } = {}
+): Promise<{ url: string; number: number; body: string; draft: boolean } | null> => {
   let body = "";
 
   if (options.prBody) {
@@ -159,11 +228,41 @@ export const createPRWithTemplate = async (
     }
   }
 
-  return createPullRequest({
+  // List every owner behind a grouped branch so reviewers know why they are on it
+  if (options.ownerGroup && options.owners && options.owners.length > 0) {
+    const ownersLine = `**Owners (${options.ownerGroup}):** ${options.owners.join(", ")}`;
+    body = body ? `${body}\n\n${ownersLine}` : ownersLine;
+  }
+
+  const override = getOwnerOverride([
+    ...(options.ownerGroup ? [options.ownerGroup] : []),
+    ...(options.owners ?? []),
+  ]);
+
+  // Explicit reviewers are used as is, unless they are teams that must be expanded
+  const reviewers = Array.from(
+    new Set([
+      ...resolveReviewers(options.owners ?? []),
+      ...(override.reviewers ?? []).flatMap((reviewer) => {
+        const members = resolveReviewers([reviewer]);
+        return members.length > 0 ? members : [reviewer.replace(/^@/, "")];
+      }),
+    ])
+  );
+  if (reviewers.length > 0) {
+    log.info(`Requesting reviews from: ${reviewers.join(", ")}`);
+  }
+
+  const draft = override.draft ?? options.draft ?? false;
+  const result = await createPullRequest({
     title,
     body,
-    draft: options.draft,
-    base: options.base,
+    draft,
+    base: override.base ?? options.base,
     head: branchName,
+    reviewers,
+    labels: override.labels,
+    assignees: override.assignees,
   });
+  return result ? { ...result, body, draft } : null;
 };
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "async_hooks";
 import chalk from "chalk";
 import Table from "cli-table3";
 
@@ -50,6 +51,37 @@ export const outputJson = (data: unknown) => {
   _origConsoleLog(JSON.stringify(data, null, 2));
 };
 
+type LogLine = { stream: "log" | "warn" | "error"; message: string };
+
+// Log lines held back by bufferLogs() for the task running in this async context
+const _buffers = new AsyncLocalStorage<LogLine[]>();
+
+const write = (stream: LogLine["stream"], message: string) => {
+  const buffer = _buffers.getStore();
+  if (buffer) {
+    buffer.push({ stream, message });
+  } else {
+    console[stream](message);
+  }
+};
+
+/**
+ * Run a task with its log.* output held back, so that tasks running
+ * concurrently can print their output one after another with `flush()`.
+ */
+export const bufferLogs = async <T>(
+  task: () => Promise<T>
+): Promise<{ result: T; flush: () => void }> => {
+  const lines: LogLine[] = [];
+  const result = await _buffers.run(lines, task);
+  return {
+    result,
+    flush: () => {
+      for (const line of lines) console[line.stream](line.message);
+    },
+  };
+};
+
 export const logFileList = (files: string[], owner?: string) => {
   if (files.length === 0) {
     log.info("No matching files found");
@@ -68,12 +100,12 @@ export const logFileList = (files: string[], owner?: string) => {
 };
 
 export const log = {
-  success: (message: string) => console.log(chalk.green(`✓ ${message}`)),
-  error: (message: string) => console.error(chalk.red(`✗ ${message}`)),
-  info: (message: string) => console.log(chalk.bold(`ℹ ${message}`)),
-  warn: (message: string) => console.warn(chalk.yellow(`⚠ ${message}`)),
-  header: (message: string) => console.log(chalk.bold.cyan(`\n${message}`)),
-  file: (path: string) => console.log(`- ${chalk.dim(path)}`),
+  success: (message: string) => write("log", chalk.green(`✓ ${message}`)),
+  error: (message: string) => write("error", chalk.red(`✗ ${message}`)),
+  info: (message: string) => write("log", chalk.bold(`ℹ ${message}`)),
+  warn: (message: string) => write("warn", chalk.yellow(`⚠ ${message}`)),
+  header: (message: string) => write("log", chalk.bold.cyan(`\n${message}`)),
+  file: (path: string) => write("log", `- ${chalk.dim(path)}`),
   owner: (name: string) => chalk.magenta(name),
 
   smartFile: (path: string) => {
@@ -5,6 +5,7 @@ import {
   matchOwnerPattern,
   filterOwnersByPattern,
   filterByPathPatterns,
+  groupOwners,
 } from "./matcher";
 
 describe("matchOwners", () => {
@@ -308,3 +309,38 @@ describe("filterByPathPatterns", () => {
     expect(result).toEqual(["README.md"]);
   });
 });
+
+describe("groupOwners", () => {
+  const groups = {
+    payments: ["@org/payments-*"],
+    "core-team": ["@org/core", "@alice"],
+  };
+
+  test("should merge owners matching a group", () => {
+    expect(
+      groupOwners(["@org/payments-api", "@org/docs", "@org/payments-web"], groups)
+    ).toEqual([
+      { name: "payments", owners: ["@org/payments-api", "@org/payments-web"] },
+      { name: "@org/docs", owners: ["@org/docs"] },
+    ]);
+  });
+
+  test("should group exact owners such as a user and their team", () => {
+    expect(groupOwners(["@alice", "@org/core"], groups)).toEqual([
+      { name: "core-team", owners: ["@alice", "@org/core"] },
+    ]);
+  });
+
+  test("should keep every owner separate without groups", () => {
+    expect(groupOwners(["@a", "@b"])).toEqual([
+      { name: "@a", owners: ["@a"] },
+      { name: "@b", owners: ["@b"] },
+    ]);
+  });
+
+  test("should assign an owner to the first matching group", () => {
+    expect(
+      groupOwners(["@org/payments-api"], { first: ["@org/*"], second: ["@org/payments-*"] })
+    ).toEqual([{ name: "first", owners: ["@org/payments-api"] }]);
+  });
+});
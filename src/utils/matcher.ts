@@ -56,6 +56,48 @@ export const filterOwnersByPattern = (
   return owners.filter((owner) => matchOwnerPattern(owner, patterns));
 };
 
+export type OwnerGroup = {
+  name: string; // Group name, or the owner itself when it is not grouped
+  owners: string[];
+};
+
+/**
+ * Merge owners into logical groups (e.g. from the `ownerGroups` config).
+ * Each owner joins the first group with a matching pattern; owners that match
+ * no group stay on their own. Groups are ordered by their first owner.
+ *
+ * @example
+ * groupOwners(
+ *   ["@org/payments-api", "@org/core", "@org/payments-web"],
+ *   { payments: ["@org/payments-*"] }
+ * ) // [{ name: "payments", owners: ["@org/payments-api", "@org/payments-web"] },
+ *   //  { name: "@org/core", owners: ["@org/core"] }]
+ */
+export const groupOwners = (
+  owners: string[],
+  groups: Record<string, string[]> = {}
+): OwnerGroup[] => {
+  const result: OwnerGroup[] = [];
+  const byName = new Map<string, OwnerGroup>();
+
+  for (const owner of owners) {
+    const name =
+      Object.keys(groups).find((group) =>
+        matchOwnerPattern(owner, groups[group].join(","))
+      ) ?? owner;
+
+    let group = byName.get(name);
+    if (!group) {
+      group = { name, owners: [] };
+      byName.set(name, group);
+      result.push(group);
+    }
+    if (!group.owners.includes(owner)) group.owners.push(owner);
+  }
+
+  return result;
+};
+
 /**
  * Check if ANY owner in a list matches the given patterns.
  */
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import {
+  addConventionalScope,
+  conventionalScope,
+  DEFAULT_MESSAGE_TEMPLATE,
+  parseConventionalHeader,
+  renderMessageTemplate,
+  validateConventionalMessage,
+} from "./message-template";
+
+describe("renderMessageTemplate", () => {
+  const values = {
+    message: "Migrate to v2",
+    owner: "@org/payments",
+    fileCount: 3,
+    source: "feature/migration",
+    package: "billing",
+  };
+
+  test("should keep the historical default message", () => {
+    expect(renderMessageTemplate(DEFAULT_MESSAGE_TEMPLATE, values)).toBe(
+      "Migrate to v2 - @org/payments"
+    );
+  });
+
+  test("should fill every placeholder and support multi-line bodies", () => {
+    expect(
+      renderMessageTemplate(
+        "{message} ({team})\\n\\n{fileCount} files in {package}, split from {source}",
+        values
+      )
+    ).toBe("Migrate to v2 (payments)\n\n3 files in billing, split from feature/migration");
+  });
+
+  test("should reject unknown placeholders", () => {
+    expect(() => renderMessageTemplate("{message} {ticket}", values)).toThrow(
+      'Unknown placeholder "{ticket}" in message template'
+    );
+  });
+});
+
+describe("parseConventionalHeader", () => {
+  test("should parse type, scope, breaking marker and subject", () => {
+    expect(parseConventionalHeader("feat(web)!: drop IE")).toEqual({
+      type: "feat",
+      scope: "web",
+      breaking: true,
+      subject: "drop IE",
+    });
+    expect(parseConventionalHeader("fix: typo")?.scope).toBeNull();
+    expect(parseConventionalHeader("Fix typo")).toBeNull();
+  });
+});
+
+describe("conventionalScope", () => {
+  test("should derive the scope from the owner or the package", () => {
+    expect(conventionalScope("@org/Payments API", "billing", "owner")).toBe("payments-api");
+    expect(conventionalScope("jane@example.com", "billing", "owner")).toBe("jane");
+    expect(conventionalScope("@org/payments", "billing", "package")).toBe("billing");
+    expect(conventionalScope("@org/payments", "root", "package")).toBeNull();
+  });
+});
+
+describe("addConventionalScope", () => {
+  test("should add a scope to headers without one", () => {
+    expect(addConventionalScope("feat!: add login\n\nBody", "web")).toBe(
+      "feat(web)!: add login\n\nBody"
+    );
+  });
+
+  test("should keep explicit scopes and other messages", () => {
+    expect(addConventionalScope("feat(api): add login", "web")).toBe("feat(api): add login");
+    expect(addConventionalScope("Add login", "web")).toBe("Add login");
+    expect(addConventionalScope("feat: add login", null)).toBe("feat: add login");
+  });
+});
+
+describe("validateConventionalMessage", () => {
+  test("should accept valid messages", () => {
+    expect(validateConventionalMessage("feat(web): add login")).toEqual([]);
+    expect(validateConventionalMessage("fix: typo\n\nDetails")).toEqual([]);
+  });
+
+  test("should report every problem", () => {
+    expect(validateConventionalMessage("Add login")).toEqual([
+      'header "Add login" must be "type(scope): subject"',
+    ]);
+    expect(validateConventionalMessage("feature: add login.\nBody")).toEqual([
+      expect.stringContaining('type "feature" must be one of'),
+      "subject must not end with a period",
+      "body must be separated from the header by a blank line",
+    ]);
+    expect(validateConventionalMessage(`feat: ${"a".repeat(100)}`)).toEqual([
+      "header must not be longer than 100 characters",
+    ]);
+    expect(validateConventionalMessage("feat: ")).toEqual(["subject must not be empty"]);
+  });
+});
@@ -0,0 +1,177 @@
+import { ownerParts } from "./branch-template";
+
+/**
+ * Commit message templates for multi-branch, with an optional Conventional
+ * Commits mode that adds a scope to the header and validates the result.
+ */
+
+export const DEFAULT_MESSAGE_TEMPLATE = "{message} - {owner}";
+
+// The owner is in the scope, so it is not repeated in the subject
+export const CONVENTIONAL_MESSAGE_TEMPLATE = "{message}";
+
+export const MESSAGE_TEMPLATE_PLACEHOLDERS = [
+  "message", // --message value
+  "owner", // Owner as in CODEOWNERS (@org/team)
+  "team", // Team name, user name or the local part of an email
+  "package", // Package containing the branch's files
+  "fileCount", // Number of files committed
+  "source", // --source ref, or the current branch
+] as const;
+
+export type MessageTemplatePlaceholder = (typeof MESSAGE_TEMPLATE_PLACEHOLDERS)[number];
+
+export type MessageTemplateValues = {
+  message: string;
+  owner: string;
+  fileCount?: number;
+  source?: string;
+  package?: string;
+};
+
+export type ScopeSource = "owner" | "package";
+
+export const SCOPE_SOURCES: ScopeSource[] = ["owner", "package"];
+
+// Types of @commitlint/config-conventional
+export const CONVENTIONAL_TYPES = [
+  "build",
+  "chore",
+  "ci",
+  "docs",
+  "feat",
+  "fix",
+  "perf",
+  "refactor",
+  "revert",
+  "style",
+  "test",
+];
+
+// Same limit as commitlint's header-max-length
+const MAX_HEADER_LENGTH = 100;
+
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+const HEADER = /^(\w+)(?:\(([^()]*)\))?(!)?: (.*)$/;
+
+export type ConventionalHeader = {
+  type: string;
+  scope: string | null;
+  breaking: boolean;
+  subject: string;
+};
+
+/**
+ * Get the placeholders used in a template, rejecting unknown ones.
+ */
+export const messagePlaceholders = (template: string): MessageTemplatePlaceholder[] => {
+  const used = new Set<MessageTemplatePlaceholder>();
+  for (const [, name] of template.matchAll(PLACEHOLDER)) {
+    if (!MESSAGE_TEMPLATE_PLACEHOLDERS.includes(name as MessageTemplatePlaceholder)) {
+      throw new Error(
+        `Unknown placeholder "{${name}}" in message template (supported: ${MESSAGE_TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")})`
+      );
+    }
+    used.add(name as MessageTemplatePlaceholder);
+  }
+  return Array.from(used);
+};
+
+/**
+ * Render a commit message from a template. A literal `\n` in the template
+ * starts a new line, so bodies can be passed on the command line.
+ * @example renderMessageTemplate("{message} - {owner}", { message: "Migrate", owner: "@org/team" }) => "Migrate - @org/team"
+ */
+export const renderMessageTemplate = (
+  template: string,
+  values: MessageTemplateValues
+): string => {
+  messagePlaceholders(template);
+
+  const replacements: Record<MessageTemplatePlaceholder, () => string> = {
+    message: () => values.message,
+    owner: () => values.owner,
+    team: () => ownerParts(values.owner).team,
+    package: () => values.package ?? "",
+    fileCount: () => String(values.fileCount ?? 0),
+    source: () => values.source ?? "",
+  };
+
+  return template
+    .replace(/\\n/g, "\n")
+    .replace(PLACEHOLDER, (_, name: MessageTemplatePlaceholder) => replacements[name]());
+};
+
+/**
+ * Parse a Conventional Commits header: `type(scope)!: subject`.
+ * Returns null if the header does not follow the format.
+ */
+export const parseConventionalHeader = (header: string): ConventionalHeader | null => {
+  const match = header.match(HEADER);
+  if (!match) return null;
+  return {
+    type: match[1],
+    scope: match[2] ?? null,
+    breaking: match[3] === "!",
+    subject: match[4],
+  };
+};
+
+/**
+ * Derive a Conventional Commits scope from the owner's team name or the
+ * package name, in lower case. Returns null for files at the repository root.
+ * @example conventionalScope("@org/Payments-API", "billing", "owner") => "payments-api"
+ */
+export const conventionalScope = (
+  owner: string,
+  pkg: string,
+  from: ScopeSource
+): string | null => {
+  if (from === "package" && pkg === "root") return null;
+  const name = from === "owner" ? ownerParts(owner).team : pkg;
+  return name.toLowerCase().replace(/[^a-z0-9-_]/g, "-");
+};
+
+/**
+ * Add a scope to a Conventional Commits header that has none.
+ * @example addConventionalScope("feat: add login", "web") => "feat(web): add login"
+ */
+export const addConventionalScope = (message: string, scope: string | null): string => {
+  const [header, ...body] = message.split("\n");
+  const parsed = parseConventionalHeader(header);
+  if (!parsed || parsed.scope !== null || !scope) return message;
+  return [
+    `${parsed.type}(${scope})${parsed.breaking ? "!" : ""}: ${parsed.subject}`,
+    ...body,
+  ].join("\n");
+};
+
+/**
+ * Check a commit message against the Conventional Commits rules.
+ * @returns The problems found, empty if the message is valid
+ */
+export const validateConventionalMessage = (message: string): string[] => {
+  const [header, ...body] = message.split("\n");
+  const parsed = parseConventionalHeader(header);
+  if (!parsed) {
+    return [`header "${header}" must be "type(scope): subject"`];
+  }
+
+  const problems: string[] = [];
+  if (!CONVENTIONAL_TYPES.includes(parsed.type)) {
+    problems.push(`type "${parsed.type}" must be one of ${CONVENTIONAL_TYPES.join(", ")}`);
+  }
+  if (!parsed.subject.trim()) {
+    problems.push("subject must not be empty");
+  } else if (parsed.subject.trim().endsWith(".")) {
+    problems.push("subject must not end with a period");
+  }
+  if (header.length > MAX_HEADER_LENGTH) {
+    problems.push(`header must not be longer than ${MAX_HEADER_LENGTH} characters`);
+  }
+  if (body.length > 0 && body[0].trim() !== "") {
+    problems.push("body must be separated from the header by a blank line");
+  }
+  return problems;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { parseCodeowners, resolveOwnership } from "./codeowners-parser";
+import { parseOwnersFile, resolveWithOwnersFiles, type OwnersFile } from "./owners-files";
+
+describe("parseOwnersFile", () => {
+  test("should parse owners, set noparent and per-file entries", () => {
+    const ownersFile = parseOwnersFile(
+      [
+        "# Billing owners",
+        "set noparent",
+        "@org/billing",
+        "alice@example.com  # lead",
+        "per-file *.sql,*.psql=@org/dba, bob@example.com",
+      ].join("\n"),
+      "packages/billing/OWNERS"
+    );
+
+    expect(ownersFile.directory).toBe("packages/billing");
+    expect(ownersFile.noParent).toBe(true);
+    expect(ownersFile.errors).toEqual([]);
+    expect(ownersFile.rules.map((r) => [r.line, r.pattern, r.owners])).toEqual([
+      [5, "/packages/billing/*.sql", ["@org/dba", "bob@example.com"]],
+      [5, "/packages/billing/*.psql", ["@org/dba", "bob@example.com"]],
+      [3, "/packages/billing/", ["@org/billing"]],
+      [4, "/packages/billing/", ["alice@example.com"]],
+    ]);
+    expect(ownersFile.rules[0].source).toBe("packages/billing/OWNERS");
+  });
+
+  test("should apply a root OWNERS file to every file", () => {
+    const ownersFile = parseOwnersFile("@org/root\nper-file *.md=@org/docs", "OWNERS");
+    expect(ownersFile.directory).toBe("");
+    expect(ownersFile.rules.map((r) => r.pattern)).toEqual(["/*.md", "*"]);
+  });
+
+  test("should report unsupported lines", () => {
+    const { rules, errors } = parseOwnersFile(
+      ["*", "file://other/OWNERS", "alice bob", "per-file src/*.ts=@org/a"].join("\n"),
+      "pkg/OWNERS"
+    );
+    expect(rules).toEqual([]);
+    expect(errors.map((e) => e.line)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("resolveWithOwnersFiles", () => {
+  const codeowners = parseCodeowners(["* @org/platform", "/packages/ @org/packages"].join("\n"));
+  const ownersFiles = new Map<string, OwnersFile>(
+    [
+      parseOwnersFile("@org/web\nper-file *.css=@org/design", "packages/web/OWNERS"),
+      parseOwnersFile("@org/web-admin", "packages/web/admin/OWNERS"),
+      parseOwnersFile("set noparent\n@org/billing", "packages/billing/OWNERS"),
+    ].map((f) => [f.directory, f])
+  );
+  const resolve = (file: string) =>
+    resolveWithOwnersFiles(ownersFiles, file, (f) => resolveOwnership(codeowners, f));
+
+  test("should inherit owners from parent OWNERS files and CODEOWNERS, nearest first", () => {
+    expect(resolve("packages/web/admin/page.ts").owners).toEqual([
+      "@org/web-admin",
+      "@org/web",
+      "@org/packages",
+    ]);
+  });
+
+  test("should apply per-file owners to files in the same directory only", () => {
+    expect(resolve("packages/web/style.css").owners).toEqual([
+      "@org/design",
+      "@org/web",
+      "@org/packages",
+    ]);
+    expect(resolve("packages/web/admin/style.css").owners).not.toContain("@org/design");
+  });
+
+  test("should not apply per-file owners to directories named like files", () => {
+    expect(resolve("packages/web/theme.css/index.ts").owners).toEqual(["@org/web", "@org/packages"]);
+
+    const root = new Map([["", parseOwnersFile("@org/root\nper-file *.md=@org/docs", "OWNERS")]]);
+    const resolveRoot = (file: string) =>
+      resolveWithOwnersFiles(root, file, (f) => resolveOwnership(codeowners, f)).owners;
+    expect(resolveRoot("README.md")).toContain("@org/docs");
+    expect(resolveRoot("guide.md/index.ts")).not.toContain("@org/docs");
+  });
+
+  test("should stop inheritance at set noparent", () => {
+    const resolution = resolve("packages/billing/src/invoice.ts");
+    expect(resolution.owners).toEqual(["@org/billing"]);
+    expect(resolution.sections.map((s) => s.rule.source)).toEqual(["packages/billing/OWNERS"]);
+  });
+
+  test("should fall back to CODEOWNERS without OWNERS files", () => {
+    expect(resolve("README.md")).toEqual(resolveOwnership(codeowners, "README.md"));
+  });
+});
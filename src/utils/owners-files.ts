@@ -0,0 +1,150 @@
+import {
+  normalizeFilePath,
+  patternToRegExp,
+  type CodeownersParseError,
+  type CodeownersRule,
+  type OwnershipResolution,
+  type SectionMatch,
+} from "./codeowners-parser";
+
+/**
+ * Nested OWNERS files (Chromium/Kubernetes style) that delegate ownership of a
+ * directory to the owners listed in it:
+ *
+ * ```
+ * # packages/billing/OWNERS
+ * set noparent
+ * @org/billing
+ * alice@example.com
+ * per-file *.sql=@org/dba
+ * ```
+ *
+ * A file is owned by the owners of every OWNERS file in its ancestor
+ * directories, nearest first, followed by the root CODEOWNERS owners.
+ * Inheritance stops at the first OWNERS file containing `set noparent`, in
+ * which case the root CODEOWNERS is not consulted either. `per-file` entries
+ * add owners for matching files directly in the OWNERS file's directory.
+ */
+
+export const OWNERS_FILE_NAME = "OWNERS";
+
+export type OwnersFile = {
+  path: string; // Path of the OWNERS file, relative to the project root
+  directory: string; // Directory the file applies to, "" for the project root
+  noParent: boolean; // `set noparent`: do not inherit owners from parent directories
+  rules: CodeownersRule[]; // per-file entries first, then one rule per owner line
+  errors: CodeownersParseError[];
+};
+
+const PER_FILE = /^per-file\s+([^=]+?)\s*=\s*(.+)$/;
+
+/**
+ * Parse an OWNERS file. Its entries are returned as rules with patterns
+ * relative to the project root, so they can be matched like CODEOWNERS rules.
+ */
+export const parseOwnersFile = (content: string, filePath: string): OwnersFile => {
+  const file = normalizeFilePath(filePath);
+  const directory = file.includes("/") ? file.slice(0, file.lastIndexOf("/")) : "";
+  const prefix = directory ? `/${directory}/` : "/";
+
+  const perFileRules: CodeownersRule[] = [];
+  const ownerRules: CodeownersRule[] = [];
+  const errors: CodeownersParseError[] = [];
+  let noParent = false;
+
+  content.split(/\r\n|\r|\n/).forEach((rawLine, i) => {
+    const raw = rawLine.trimEnd();
+    const line = raw.replace(/#.*$/, "").trim();
+    if (!line) return;
+
+    const rule = { line: i + 1, raw, source: file };
+
+    if (line === "set noparent") {
+      noParent = true;
+      return;
+    }
+
+    const perFile = PER_FILE.exec(line);
+    if (perFile) {
+      const owners = perFile[2].split(",").map((owner) => owner.trim()).filter(Boolean);
+      if (owners.includes("set noparent") || owners.includes("*")) {
+        errors.push({ line: i + 1, message: "Unsupported per-file owners", raw });
+        return;
+      }
+      for (const glob of perFile[1].split(",").map((g) => g.trim()).filter(Boolean)) {
+        if (glob.includes("/")) {
+          errors.push({ line: i + 1, message: `per-file pattern "${glob}" must not contain "/"`, raw });
+          continue;
+        }
+        perFileRules.push({ ...rule, pattern: `${prefix}${glob}`, owners });
+      }
+      return;
+    }
+
+    if (line.startsWith("file:") || line.startsWith("include ") || line === "*") {
+      errors.push({ line: i + 1, message: `Unsupported OWNERS directive "${line}"`, raw });
+      return;
+    }
+    if (/\s/.test(line)) {
+      errors.push({ line: i + 1, message: "Expected one owner per line", raw });
+      return;
+    }
+
+    ownerRules.push({ ...rule, pattern: directory ? prefix : "*", owners: [line] });
+  });
+
+  return { path: file, directory, noParent, rules: [...perFileRules, ...ownerRules], errors };
+};
+
+/**
+ * Resolve the owners of a file from the OWNERS files in its ancestor
+ * directories (keyed by directory), falling back to the root resolution
+ * (usually CODEOWNERS) unless a `set noparent` stops inheritance.
+ *
+ * Every matching OWNERS entry is reported as its own match, nearest first.
+ */
+export const resolveWithOwnersFiles = (
+  ownersFiles: Map<string, OwnersFile>,
+  filePath: string,
+  resolveRoot: (file: string) => OwnershipResolution
+): OwnershipResolution => {
+  const file = normalizeFilePath(filePath);
+  const segments = file.split("/").slice(0, -1);
+  const sections: SectionMatch[] = [];
+  let inherit = true;
+
+  for (let depth = segments.length; depth >= 0 && inherit; depth--) {
+    const ownersFile = ownersFiles.get(segments.slice(0, depth).join("/"));
+    if (!ownersFile) continue;
+
+    for (const rule of ownersFile.rules) {
+      // per-file globs only match files directly in the directory, not
+      // directories named like them (owner rules are "/dir/" or "*")
+      const perFile = !rule.pattern.endsWith("/") && rule.pattern !== "*";
+      if (perFile && depth !== segments.length) continue;
+      if (!patternToRegExp(rule.pattern).test(file)) continue;
+      sections.push({
+        section: null,
+        optional: false,
+        approvals: 1,
+        owners: rule.owners,
+        rule,
+        overridden: [],
+      });
+    }
+    inherit = !ownersFile.noParent;
+  }
+
+  if (inherit) {
+    sections.push(...resolveRoot(file).sections);
+  }
+
+  const owners: string[] = [];
+  for (const match of sections) {
+    for (const owner of match.owners) {
+      if (!owners.includes(owner)) owners.push(owner);
+    }
+  }
+
+  return { owners, sections };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { diffOwnership } from "./ownership-diff";
+
+describe("diffOwnership", () => {
+  const before: Record<string, string[]> = {
+    "src/a.ts": ["@org/core"],
+    "src/b.ts": ["@org/core", "@org/api"],
+    "docs/guide.md": [],
+    "README.md": ["@org/docs"],
+  };
+  const after: Record<string, string[]> = {
+    "src/a.ts": ["@org/web"],
+    "src/b.ts": ["@org/api", "@org/core"],
+    "docs/guide.md": ["@org/docs"],
+    "README.md": ["@org/docs"],
+  };
+  const files = Object.keys(before);
+
+  test("should list files whose owner set changed", () => {
+    const diff = diffOwnership(files, (f) => before[f], (f) => after[f]);
+
+    expect(diff.filesCompared).toBe(4);
+    expect(diff.changes).toEqual([
+      { file: "src/a.ts", before: ["@org/core"], after: ["@org/web"] },
+      { file: "docs/guide.md", before: [], after: ["@org/docs"] },
+    ]);
+  });
+
+  test("should summarise files gained and lost per owner", () => {
+    const diff = diffOwnership(files, (f) => before[f], (f) => after[f]);
+
+    expect(diff.owners).toEqual([
+      { owner: "@org/core", gained: [], lost: ["src/a.ts"] },
+      { owner: "@org/docs", gained: ["docs/guide.md"], lost: [] },
+      { owner: "@org/web", gained: ["src/a.ts"], lost: [] },
+    ]);
+  });
+
+  test("should report no changes for identical ownership", () => {
+    const diff = diffOwnership(files, (f) => before[f], (f) => before[f]);
+    expect(diff.changes).toEqual([]);
+    expect(diff.owners).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+export type OwnershipChange = {
+  file: string;
+  before: string[]; // Owners at the first ref
+  after: string[]; // Owners at the second ref
+};
+
+export type OwnerDiff = {
+  owner: string;
+  gained: string[]; // Files the owner owns at the second ref only
+  lost: string[]; // Files the owner owned at the first ref only
+};
+
+export type OwnershipDiff = {
+  filesCompared: number;
+  changes: OwnershipChange[];
+  owners: OwnerDiff[]; // Sorted by number of files gained and lost
+};
+
+const sameOwners = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((owner) => b.includes(owner));
+
+/**
+ * Compare the owners of each file under two ownership resolvers and report
+ * the files whose owner set changed, with the files gained and lost per owner.
+ * The order in which owners are listed does not count as a change.
+ */
+export const diffOwnership = (
+  files: string[],
+  before: (file: string) => string[],
+  after: (file: string) => string[]
+): OwnershipDiff => {
+  const changes: OwnershipChange[] = [];
+  const owners = new Map<string, OwnerDiff>();
+  const ownerDiff = (owner: string): OwnerDiff => {
+    let diff = owners.get(owner);
+    if (!diff) {
+      diff = { owner, gained: [], lost: [] };
+      owners.set(owner, diff);
+    }
+    return diff;
+  };
+
+  for (const file of files) {
+    const change = { file, before: before(file), after: after(file) };
+    if (sameOwners(change.before, change.after)) continue;
+
+    changes.push(change);
+    for (const owner of change.after) {
+      if (!change.before.includes(owner)) ownerDiff(owner).gained.push(file);
+    }
+    for (const owner of change.before) {
+      if (!change.after.includes(owner)) ownerDiff(owner).lost.push(file);
+    }
+  }
+
+  return {
+    filesCompared: files.length,
+    changes,
+    owners: Array.from(owners.values()).sort(
+      (a, b) =>
+        b.gained.length + b.lost.length - (a.gained.length + a.lost.length) ||
+        a.owner.localeCompare(b.owner)
+    ),
+  };
+};
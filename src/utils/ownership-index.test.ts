@@ -0,0 +1,205 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { parseCodeowners, resolveOwnership } from "./codeowners-parser";
+import {
+  compileOwnershipIndex,
+  findMatchingRuleIndexes,
+  loadOwnershipCache,
+  MAX_CACHED_FILES,
+  resolveFromIndex,
+  saveOwnershipCache,
+} from "./ownership-index";
+
+const GITHUB = [
+  "*                   @org/default",
+  "*.md                @org/docs",
+  "/src/               @org/core",
+  "/src/billing/       @org/billing",
+  "src/*/config.ts     @org/config",
+  "**/test/            @org/qa",
+  "docs/**/*.png       @org/design",
+  "/src/billing/legacy",
+].join("\n");
+
+const GITLAB = [
+  "* @org/default",
+  "[Backend] @org/backend",
+  "/src/",
+  "!/src/generated/",
+  "^[Docs]",
+  "*.md @org/docs",
+  "/src/billing/README.md @org/billing",
+].join("\n");
+
+const FILES = [
+  "README.md",
+  "package.json",
+  "src/index.ts",
+  "src/billing/invoice.ts",
+  "src/billing/README.md",
+  "src/billing/legacy/old.ts",
+  "src/api/config.ts",
+  "src/generated/schema.ts",
+  "lib/test/helper.ts",
+  "src/billing/test/invoice.test.ts",
+  "docs/guide/images/logo.png",
+  "docs/logo.png",
+];
+
+describe("compileOwnershipIndex", () => {
+  for (const [name, content] of [
+    ["GitHub", GITHUB],
+    ["GitLab", GITLAB],
+  ]) {
+    test(`should resolve the same owners as resolveOwnership (${name})`, () => {
+      const parsed = parseCodeowners(content);
+      const index = compileOwnershipIndex(parsed);
+
+      for (const file of FILES) {
+        expect(resolveFromIndex(index, file)).toEqual(resolveOwnership(parsed, file));
+      }
+    });
+  }
+
+  test("should only test floating rules and rules on the file's path", () => {
+    const parsed = parseCodeowners(GITHUB);
+    const index = compileOwnershipIndex(parsed);
+
+    expect(index.floating.map((i) => parsed.rules[i].pattern)).toEqual([
+      "*",
+      "*.md",
+      "**/test/",
+    ]);
+    expect(
+      findMatchingRuleIndexes(index, "src/billing/invoice.ts").map((i) => parsed.rules[i].pattern)
+    ).toEqual(["*", "/src/", "/src/billing/"]);
+  });
+
+  test("should memoize matches and reuse cached matches", () => {
+    const parsed = parseCodeowners(GITHUB);
+    const index = compileOwnershipIndex(parsed);
+
+    expect(index.dirty).toBe(false);
+    const matches = findMatchingRuleIndexes(index, "./src/index.ts");
+    expect(index.dirty).toBe(true);
+    expect(index.matches.get("src/index.ts")).toBe(matches);
+
+    const cached = compileOwnershipIndex(parsed, { "src/index.ts": [0] });
+    expect(resolveFromIndex(cached, "src/index.ts").owners).toEqual(["@org/default"]);
+    expect(cached.dirty).toBe(false);
+  });
+});
+
+describe("ownership cache", () => {
+  const key = "github";
+  let cacheDir: string;
+
+  beforeAll(() => {
+    cacheDir = mkdtempSync(path.join(tmpdir(), "cg-cache-"));
+  });
+
+  afterAll(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  test("should return an empty cache when none exists", () => {
+    expect(loadOwnershipCache("missing", cacheDir)).toEqual({});
+  });
+
+  test("should round-trip resolved matches", () => {
+    const parsed = parseCodeowners(GITHUB);
+    const index = compileOwnershipIndex(parsed);
+    FILES.forEach((file) => findMatchingRuleIndexes(index, file));
+
+    saveOwnershipCache(key, index, cacheDir);
+    expect(index.dirty).toBe(false);
+
+    const restored = compileOwnershipIndex(parsed, loadOwnershipCache(key, cacheDir));
+    for (const file of FILES) {
+      expect(resolveFromIndex(restored, file)).toEqual(resolveOwnership(parsed, file));
+    }
+    expect(restored.dirty).toBe(false);
+  });
+
+  test("should only write when new files were resolved", () => {
+    const parsed = parseCodeowners(GITHUB);
+    const index = compileOwnershipIndex(parsed, { "src/index.ts": [0, 2] });
+    findMatchingRuleIndexes(index, "src/index.ts");
+
+    saveOwnershipCache("unchanged", index, cacheDir);
+    expect(existsSync(path.join(cacheDir, "unchanged.json"))).toBe(false);
+  });
+
+  test("should keep the most recently resolved files", () => {
+    const parsed = parseCodeowners(GITHUB);
+    const cached = Object.fromEntries(
+      Array.from({ length: MAX_CACHED_FILES }, (_, i) => [`old/${i}.ts`, [0]])
+    );
+    const index = compileOwnershipIndex(parsed, cached);
+    findMatchingRuleIndexes(index, "old/0.ts"); // Used again, so it is kept
+    findMatchingRuleIndexes(index, "src/index.ts");
+
+    saveOwnershipCache("capped", index, cacheDir);
+    const { matches } = JSON.parse(readFileSync(path.join(cacheDir, "capped.json"), "utf-8"));
+    expect(Object.keys(matches)).toHaveLength(MAX_CACHED_FILES);
+    expect(matches["src/index.ts"]).toBeDefined();
+    expect(matches["old/0.ts"]).toBeDefined();
+    expect(matches["old/1.ts"]).toBeUndefined();
+  });
+});
+
+describe("rule evaluations", () => {
+  // A monorepo-sized CODEOWNERS: one rule per package plus a few globals
+  const packages = Array.from({ length: 400 }, (_, i) => `packages/pkg-${i}`);
+  const content = [
+    "* @org/platform",
+    "*.md @org/docs",
+    "**/__tests__/ @org/qa",
+    ...packages.map((pkg, i) => `/${pkg}/ @org/team-${i % 50}`),
+  ].join("\n");
+  const files = packages.flatMap((pkg) => [
+    `${pkg}/src/index.ts`,
+    `${pkg}/src/util.ts`,
+    `${pkg}/README.md`,
+    `${pkg}/__tests__/index.test.ts`,
+    `${pkg}/package.json`,
+  ]);
+  const owners = Array.from({ length: 50 }, (_, i) => `@org/team-${i}`);
+
+  test("should test only the rules on each file's path, once per file", () => {
+    const parsed = parseCodeowners(content);
+
+    // Previous approach: scan every rule for every file, once per owner
+    const naive = owners.map(
+      (owner) =>
+        files.filter((file) => resolveOwnership(parsed, file).owners.includes(owner)).length
+    );
+    const naiveTests = owners.length * files.length * parsed.rules.length;
+
+    // Count on copies: the compiled patterns are shared with every other test
+    const compiled = compileOwnershipIndex(parsed);
+    let indexTests = 0;
+    const index = {
+      ...compiled,
+      regExps: compiled.regExps.map((regExp) => {
+        const copy = new RegExp(regExp.source, regExp.flags);
+        copy.test = (file: string) => {
+          indexTests++;
+          return RegExp.prototype.test.call(copy, file);
+        };
+        return copy;
+      }),
+    };
+    const indexed = owners.map(
+      (owner) =>
+        files.filter((file) => resolveFromIndex(index, file).owners.includes(owner)).length
+    );
+
+    expect(indexed).toEqual(naive);
+    // The floating rules plus the file's package rule
+    expect(indexTests).toBe(files.length * (index.floating.length + 1));
+    expect(indexTests).toBeLessThan(naiveTests);
+  });
+});
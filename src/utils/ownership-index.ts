@@ -0,0 +1,197 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import {
+  normalizeFilePath,
+  patternToRegExp,
+  resolveMatches,
+  type OwnershipResolution,
+  type ParsedCodeowners,
+} from "./codeowners-parser";
+
+/**
+ * Compiled CODEOWNERS index for fast ownership lookups.
+ *
+ * Rules anchored under a literal directory (`/src/billing/`, `docs/*`) are
+ * stored in a path trie, so a lookup only tests the rules on the file's own
+ * path plus the rules that can match at any depth (`*.ts`, `**\/test/`).
+ * Matching rules are memoized per file, and can be persisted between runs in
+ * a cache keyed by the CODEOWNERS blob hash.
+ */
+
+type TrieNode = {
+  children: Map<string, TrieNode>;
+  rules: number[]; // Indexes of rules anchored at this path
+};
+
+export type OwnershipIndex = {
+  parsed: Pick<ParsedCodeowners, "rules" | "sections">;
+  regExps: RegExp[]; // Compiled pattern of every rule, by rule index
+  trie: TrieNode;
+  floating: number[]; // Rules without a literal directory prefix
+  matches: Map<string, number[]>; // Memoized matching rule indexes per file
+  dirty: boolean; // New matches since the index was loaded from the cache
+};
+
+// Bump when the cached data or matching semantics change
+const CACHE_VERSION = 1;
+
+// Files kept in a cache, the most recently resolved ones win
+export const MAX_CACHED_FILES = 50_000;
+
+const createNode = (): TrieNode => ({ children: new Map(), rules: [] });
+
+/**
+ * Return the literal leading path segments of an anchored pattern, or null
+ * when the pattern can match at any depth.
+ */
+const literalPrefix = (pattern: string): string[] | null => {
+  const body = pattern.replace(/\/+$/, "");
+  if (!body.startsWith("/") && !body.includes("/")) return null;
+
+  const prefix: string[] = [];
+  for (const segment of body.replace(/^\/+/, "").split("/")) {
+    if (!segment || /[*?]/.test(segment)) break;
+    prefix.push(segment);
+  }
+  return prefix.length > 0 ? prefix : null;
+};
+
+/**
+ * Compile the rules of a CODEOWNERS file into an ownership index.
+ * Previously cached matches can be passed in to skip matching known files.
+ */
+export const compileOwnershipIndex = (
+  parsed: Pick<ParsedCodeowners, "rules" | "sections">,
+  cachedMatches: Record<string, number[]> = {}
+): OwnershipIndex => {
+  const trie = createNode();
+  const floating: number[] = [];
+
+  parsed.rules.forEach((rule, i) => {
+    const prefix = literalPrefix(rule.pattern);
+    if (!prefix) {
+      floating.push(i);
+      return;
+    }
+
+    let node = trie;
+    for (const segment of prefix) {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode();
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    node.rules.push(i);
+  });
+
+  return {
+    parsed,
+    regExps: parsed.rules.map((rule) => patternToRegExp(rule.pattern)),
+    trie,
+    floating,
+    matches: new Map(Object.entries(cachedMatches)),
+    dirty: false,
+  };
+};
+
+/**
+ * Return the indexes of every rule matching a file, in file order.
+ */
+export const findMatchingRuleIndexes = (
+  index: OwnershipIndex,
+  filePath: string
+): number[] => {
+  const file = normalizeFilePath(filePath);
+  const cached = index.matches.get(file);
+  if (cached) {
+    // Move the file to the end, so the cap keeps recently used files
+    index.matches.delete(file);
+    index.matches.set(file, cached);
+    return cached;
+  }
+
+  // Candidates: floating rules plus the rules anchored along the file's path
+  const candidates = [...index.floating];
+  let node: TrieNode | undefined = index.trie;
+  for (const segment of file.split("/")) {
+    node = node.children.get(segment);
+    if (!node) break;
+    candidates.push(...node.rules);
+  }
+
+  const matching = candidates
+    .sort((a, b) => a - b)
+    .filter((i) => index.regExps[i].test(file));
+
+  index.matches.set(file, matching);
+  index.dirty = true;
+  return matching;
+};
+
+/**
+ * Resolve the owners of a file using the index.
+ * Equivalent to resolveOwnership() on the same rules.
+ */
+export const resolveFromIndex = (
+  index: OwnershipIndex,
+  filePath: string
+): OwnershipResolution =>
+  resolveMatches(
+    index.parsed,
+    findMatchingRuleIndexes(index, filePath).map((i) => index.parsed.rules[i])
+  );
+
+/**
+ * Get the path to the ownership cache directory (~/.codeowners-git/cache/)
+ */
+export const getCacheDir = (): string =>
+  join(homedir(), ".codeowners-git", "cache");
+
+/**
+ * Load cached matches for a CODEOWNERS file, keyed by its blob hash.
+ * Returns an empty cache when none exists or it is unreadable.
+ */
+export const loadOwnershipCache = (
+  key: string,
+  cacheDir: string = getCacheDir()
+): Record<string, number[]> => {
+  const filePath = join(cacheDir, `${key}.json`);
+  if (!existsSync(filePath)) return {};
+
+  try {
+    const data = JSON.parse(readFileSync(filePath, "utf-8"));
+    return data.version === CACHE_VERSION ? data.matches : {};
+  } catch {
+    // A corrupt cache is rebuilt on the next save
+    return {};
+  }
+};
+
+/**
+ * Persist the memoized matches of an index if new files were resolved.
+ * Only the MAX_CACHED_FILES most recently resolved files are kept.
+ */
+export const saveOwnershipCache = (
+  key: string,
+  index: OwnershipIndex,
+  cacheDir: string = getCacheDir()
+): void => {
+  if (!index.dirty) return;
+
+  try {
+    mkdirSync(cacheDir, { recursive: true });
+    writeFileSync(
+      join(cacheDir, `${key}.json`),
+      JSON.stringify({
+        version: CACHE_VERSION,
+        matches: Object.fromEntries(Array.from(index.matches).slice(-MAX_CACHED_FILES)),
+      })
+    );
+    index.dirty = false;
+  } catch {
+    // The cache is an optimization only
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import {
+  fillRelatedPRs,
+  formatFileList,
+  hasRelatedPRs,
+  renderPRTemplate,
+} from "./pr-template";
+
+describe("renderPRTemplate", () => {
+  const values = {
+    title: "Migrate to v2",
+    owner: "@org/web",
+    files: "- `a.ts`",
+    fileCount: "1",
+    operationId: "1234",
+  };
+
+  test("should fill placeholders and support multi-line templates", () => {
+    expect(
+      renderPRTemplate("## {owner}\\n\\n{fileCount} file(s):\\n{files}\\n\\nOperation {operationId}", values)
+    ).toBe("## @org/web\n\n1 file(s):\n- `a.ts`\n\nOperation 1234");
+  });
+
+  test("should render missing values as empty strings", () => {
+    expect(renderPRTemplate("{title} from {source}", values)).toBe("Migrate to v2 from ");
+  });
+
+  test("should reject unknown placeholders", () => {
+    expect(() => renderPRTemplate("{title} {ticket}", values)).toThrow(
+      'Unknown placeholder "{ticket}" in PR template'
+    );
+  });
+});
+
+describe("formatFileList", () => {
+  test("should list files as Markdown", () => {
+    expect(formatFileList(["a.ts", "b.ts"])).toBe("- `a.ts`\n- `b.ts`");
+  });
+
+  test("should truncate long lists", () => {
+    const files = Array.from({ length: 105 }, (_, i) => `file${i}.ts`);
+    const lines = formatFileList(files).split("\n");
+    expect(lines).toHaveLength(101);
+    expect(lines[100]).toBe("- ... and 5 more");
+  });
+});
+
+describe("fillRelatedPRs", () => {
+  const prs = [
+    { owner: "@org/web", branch: "feature/web", url: "https://github.com/o/r/pull/1", number: 1 },
+    { owner: "@org/api", branch: "feature/api", url: "https://github.com/o/r/pull/2", number: 2 },
+  ];
+
+  test("should replace the placeholder with links to the other PRs", () => {
+    const body = renderPRTemplate("Related:\\n{relatedPrs}\\nEnd", {});
+    expect(hasRelatedPRs(body)).toBe(true);
+
+    const filled = fillRelatedPRs(body, 1, prs);
+    expect(filled).toContain("- https://github.com/o/r/pull/2 — @org/api (`feature/api`)");
+    expect(filled).not.toContain("pull/1 ");
+    expect(filled).not.toContain("added once every PR is created");
+    expect(filled.endsWith("\nEnd")).toBe(true);
+
+    // The links stay marked, so they can be refreshed
+    expect(fillRelatedPRs(filled, 1, prs.slice(0, 1))).toContain("_No related PRs._");
+  });
+
+  test("should leave bodies without related PRs unchanged", () => {
+    expect(hasRelatedPRs("No links")).toBe(false);
+    expect(fillRelatedPRs("No links", 1, prs)).toBe("No links");
+  });
+});
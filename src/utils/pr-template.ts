@@ -0,0 +1,106 @@
+/**
+ * Pull request title and body templates for branch and multi-branch.
+ *
+ * Links between the PRs of one multi-branch run can only be rendered once
+ * every PR exists, so `{relatedPrs}` first renders a marked placeholder that
+ * is replaced by `fillRelatedPRs()` in a second pass.
+ */
+
+export const PR_TEMPLATE_PLACEHOLDERS = [
+  "title", // First line of the commit message
+  "owner", // Owner (or owner group) the branch is created for
+  "owners", // Owners of the committed files, comma-separated
+  "team", // Team name, user name or the local part of an email
+  "branch", // Head branch of the PR
+  "base", // Base branch of the PR
+  "files", // Markdown list of the committed files
+  "fileCount", // Number of committed files
+  "diffstat", // `git diff --stat` of the branch, in a code block
+  "source", // Source branch or commit the changes come from
+  "operationId", // ID of the operation (see `recover`)
+  "relatedPrs", // Links to the other PRs of the same multi-branch run
+  "template", // Repository PR template
+] as const;
+
+export type PRTemplatePlaceholder = (typeof PR_TEMPLATE_PLACEHOLDERS)[number];
+
+export type PRTemplateValues = Partial<Record<PRTemplatePlaceholder, string>>;
+
+export type RelatedPR = {
+  owner: string;
+  branch: string;
+  url: string;
+  number: number;
+};
+
+// Files listed before truncating, to keep bodies under GitHub's size limit
+const MAX_LISTED_FILES = 100;
+
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+const RELATED_START = "<!-- codeowners-git:related-prs -->";
+const RELATED_END = "<!-- /codeowners-git:related-prs -->";
+const RELATED_BLOCK = new RegExp(`${RELATED_START}[\\s\\S]*?${RELATED_END}`, "g");
+
+/**
+ * Get the placeholders used in a template, rejecting unknown ones.
+ */
+export const prPlaceholders = (template: string): PRTemplatePlaceholder[] => {
+  const used = new Set<PRTemplatePlaceholder>();
+  for (const [, name] of template.matchAll(PLACEHOLDER)) {
+    if (!PR_TEMPLATE_PLACEHOLDERS.includes(name as PRTemplatePlaceholder)) {
+      throw new Error(
+        `Unknown placeholder "{${name}}" in PR template (supported: ${PR_TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")})`
+      );
+    }
+    used.add(name as PRTemplatePlaceholder);
+  }
+  return Array.from(used);
+};
+
+/**
+ * Render a PR title or body template. A literal `\n` starts a new line.
+ * Missing values render as empty strings.
+ */
+export const renderPRTemplate = (template: string, values: PRTemplateValues): string => {
+  prPlaceholders(template);
+  return template
+    .replace(/\\n/g, "\n")
+    .replace(PLACEHOLDER, (_, name: PRTemplatePlaceholder) =>
+      name === "relatedPrs"
+        ? `${RELATED_START}\n_Links to the related PRs are added once every PR is created._\n${RELATED_END}`
+        : (values[name] ?? "")
+    );
+};
+
+/**
+ * Format files as a Markdown list, truncated after MAX_LISTED_FILES.
+ */
+export const formatFileList = (files: string[]): string => {
+  const listed = files.slice(0, MAX_LISTED_FILES).map((file) => `- \`${file}\``);
+  if (files.length > MAX_LISTED_FILES) {
+    listed.push(`- ... and ${files.length - MAX_LISTED_FILES} more`);
+  }
+  return listed.join("\n");
+};
+
+/**
+ * Check if a PR body has related PR links to fill in.
+ */
+export const hasRelatedPRs = (body: string): boolean => body.includes(RELATED_START);
+
+/**
+ * Replace the related PR placeholder of a body with links to the other PRs.
+ */
+export const fillRelatedPRs = (
+  body: string,
+  current: number,
+  prs: RelatedPR[]
+): string => {
+  const related = prs.filter((pr) => pr.number !== current);
+  const links =
+    related.length > 0
+      ? related.map((pr) => `- ${pr.url} — ${pr.owner} (\`${pr.branch}\`)`).join("\n")
+      : "_No related PRs._";
+  return body.replace(RELATED_BLOCK, () => `${RELATED_START}\n${links}\n${RELATED_END}`);
+};
@@ -3,6 +3,7 @@ import { join } from "path";
 import { randomUUID, createHash } from "crypto";
 import { homedir } from "os";
 import { log } from "./logger";
+import type { UnstagedChanges } from "./git";
 
 export type OperationState = "initializing" | "creating-branch" | "committing" | "pushing" | "creating-pr" | "complete" | "failed";
 
@@ -14,6 +15,8 @@ export type BranchState = {
   pushed: boolean;
   prCreated: boolean;
   files: string[];
+  worktree?: string; // Temporary worktree the branch is built in (--worktree)
+  unstagedChanges?: UnstagedChanges; // Unstaged changes set aside while committing (checkout strategy)
   error?: string;
 };
 
@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import {
+  appendPatch,
+  buildFileHistory,
+  suggestOwners,
+  suggestionsToRules,
+} from "./suggest-owners";
+
+const teams: Record<string, string[]> = {
+  alice: ["@org/billing"],
+  bob: ["@org/billing", "@org/web"],
+  carol: ["@org/web"],
+};
+
+const files = [
+  "README.md",
+  "pkg/billing/src/invoice.ts",
+  "pkg/billing/src/tax.ts",
+  "pkg/billing/README.md",
+  "pkg/web/app.ts",
+  "pkg/web/legacy/old.ts",
+  "pkg/web/legacy/older.ts",
+];
+// pkg/web/app.ts is the only owned file
+const unowned = files.filter((file) => file !== "pkg/web/app.ts");
+
+const history = buildFileHistory(
+  [
+    { author: "alice", files: ["pkg/billing/src/invoice.ts", "pkg/billing/src/tax.ts"] },
+    { author: "alice", files: ["pkg/billing/README.md", "README.md"] },
+    { author: "bob", files: ["pkg/billing/src/tax.ts"] },
+    { author: "carol", files: ["pkg/web/legacy/old.ts", "pkg/web/app.ts"] },
+    { author: "zed", files: ["README.md", "pkg/web/legacy/older.ts"] },
+  ],
+  (author) => teams[author] ?? [],
+  new Set(unowned)
+);
+
+describe("buildFileHistory", () => {
+  test("should count commits per file and split them between an author's teams", () => {
+    expect(history.get("pkg/billing/src/tax.ts")).toEqual({
+      commits: 2,
+      teams: new Map([
+        ["@org/billing", 1.5],
+        ["@org/web", 0.5],
+      ]),
+    });
+    expect(history.has("pkg/web/app.ts")).toBe(false);
+  });
+});
+
+describe("suggestOwners", () => {
+  test("should suggest directory rules for fully unowned directories", () => {
+    const { suggestions } = suggestOwners(files, unowned, history);
+
+    expect(suggestions[0]).toEqual({
+      pattern: "/pkg/billing/",
+      owner: "@org/billing",
+      confidence: 0.88,
+      commits: 4,
+      files: ["pkg/billing/src/invoice.ts", "pkg/billing/src/tax.ts", "pkg/billing/README.md"],
+    });
+  });
+
+  test("should split directories below the minimum confidence into files", () => {
+    const { suggestions, unresolved } = suggestOwners(files, unowned, history, 0.6);
+
+    // pkg/web/legacy is split: old.ts by carol, older.ts by an unknown author
+    expect(suggestions.map((s) => [s.pattern, s.owner, s.confidence])).toEqual([
+      ["/pkg/billing/", "@org/billing", 0.88],
+      ["/pkg/web/legacy/old.ts", "@org/web", 1],
+    ]);
+    expect(unresolved).toEqual(["README.md", "pkg/web/legacy/older.ts"]);
+  });
+
+  test("should respect the minimum confidence", () => {
+    const { suggestions, unresolved } = suggestOwners(files, unowned, history, 0.9);
+    expect(suggestions.map((s) => s.pattern)).toEqual([
+      "/pkg/billing/README.md",
+      "/pkg/billing/src/invoice.ts",
+      "/pkg/web/legacy/old.ts",
+    ]);
+    expect(unresolved).toContain("pkg/billing/src/tax.ts");
+  });
+
+  test("should suggest a catch-all rule when nothing is owned", () => {
+    const { suggestions } = suggestOwners(
+      ["a.ts", "lib/b.ts"],
+      ["a.ts", "lib/b.ts"],
+      buildFileHistory([{ author: "carol", files: ["a.ts", "lib/b.ts"] }], (a) => teams[a], new Set(["a.ts", "lib/b.ts"]))
+    );
+    expect(suggestions.map((s) => [s.pattern, s.owner])).toEqual([["*", "@org/web"]]);
+  });
+
+  test("should escape glob characters, spaces and comments in patterns", () => {
+    const paths = ["app/[id]/page.tsx", "lib/!important*.ts", "notes/#1 draft?.md"];
+    const { suggestions } = suggestOwners(
+      [...paths, "app/layout.tsx", "lib/index.ts", "notes/index.md"],
+      paths,
+      buildFileHistory([{ author: "carol", files: paths }], (a) => teams[a], new Set(paths))
+    );
+    expect(suggestions.map((s) => s.pattern)).toEqual([
+      "/app/\\[id\\]/",
+      "/lib/\\!important\\*.ts",
+      "/notes/\\#1\\ draft\\?.md",
+    ]);
+  });
+});
+
+describe("appendPatch", () => {
+  const rules = suggestionsToRules([
+    { pattern: "/pkg/", owner: "@org/web", confidence: 0.75, commits: 4, files: [] },
+  ]);
+
+  test("should render rules with their confidence", () => {
+    expect(rules).toEqual([
+      "",
+      "# Suggested by codeowners-git suggest-owners",
+      "/pkg/ @org/web # confidence 75%",
+    ]);
+    expect(suggestionsToRules([], "gitlab")).toContain("[Suggested owners]");
+  });
+
+  test("should append to the end of an existing file", () => {
+    expect(appendPatch(".github/CODEOWNERS", "* @org/a\n/docs/ @org/docs\n", rules)).toBe(
+      [
+        "--- a/.github/CODEOWNERS",
+        "+++ b/.github/CODEOWNERS",
+        "@@ -1,2 +1,5 @@",
+        " * @org/a",
+        " /docs/ @org/docs",
+        "+",
+        "+# Suggested by codeowners-git suggest-owners",
+        "+/pkg/ @org/web # confidence 75%",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("should add a missing trailing newline", () => {
+    expect(appendPatch("CODEOWNERS", "* @org/a", rules).split("\n").slice(2, 6)).toEqual([
+      "@@ -1,1 +1,4 @@",
+      "-* @org/a",
+      "\\ No newline at end of file",
+      "+* @org/a",
+    ]);
+  });
+
+  test("should create a missing file", () => {
+    expect(appendPatch(".github/CODEOWNERS", null, rules).split("\n").slice(0, 3)).toEqual([
+      "--- /dev/null",
+      "+++ b/.github/CODEOWNERS",
+      "@@ -0,0 +1,2 @@",
+    ]);
+  });
+
+  test("should append to an empty file", () => {
+    expect(appendPatch("CODEOWNERS", "", rules).split("\n").slice(0, 4)).toEqual([
+      "--- a/CODEOWNERS",
+      "+++ b/CODEOWNERS",
+      "@@ -0,0 +1,3 @@",
+      "+",
+    ]);
+  });
+});
@@ -0,0 +1,276 @@
+import type { CodeownersDialect } from "./codeowners-parser";
+
+/**
+ * Suggest CODEOWNERS rules for unowned files from their commit history.
+ *
+ * Commits are attributed to the teams of their authors, and each fully
+ * unowned directory is assigned to the team with the largest share of its
+ * commits when that share reaches the minimum confidence. Otherwise the
+ * directory is split into its subdirectories and files, so the fewest rules
+ * cover the most files.
+ */
+
+export type FileHistory = {
+  commits: number; // Commits touching the file, by any author
+  teams: Map<string, number>; // Commits per team (split between an author's teams)
+};
+
+export type OwnerSuggestion = {
+  pattern: string; // CODEOWNERS pattern, anchored at the root
+  owner: string;
+  confidence: number; // Share of the commits made by the owner (0-1)
+  commits: number; // Commits touching the files covered by the rule
+  files: string[];
+};
+
+export type SuggestOwnersResult = {
+  suggestions: OwnerSuggestion[];
+  unresolved: string[]; // Unowned files without a confident suggestion
+};
+
+type Candidate = {
+  owner: string;
+  confidence: number;
+  commits: number;
+};
+
+// Escape characters CODEOWNERS would read as glob syntax, comments or separators
+const escapePattern = (pattern: string): string =>
+  pattern.replace(/[\\ #*?[\]!]/g, "\\$&");
+
+const parentDirectory = (file: string): string =>
+  file.includes("/") ? file.slice(0, file.lastIndexOf("/")) : "";
+
+/**
+ * Pick the team with the most commits across a set of files.
+ */
+const bestCandidate = (
+  files: string[],
+  history: Map<string, FileHistory>
+): Candidate | null => {
+  const teams = new Map<string, number>();
+  let commits = 0;
+
+  for (const file of files) {
+    const fileHistory = history.get(file);
+    if (!fileHistory) continue;
+    commits += fileHistory.commits;
+    for (const [team, weight] of fileHistory.teams) {
+      teams.set(team, (teams.get(team) ?? 0) + weight);
+    }
+  }
+
+  const [best] = Array.from(teams).sort(
+    ([a, aWeight], [b, bWeight]) => bWeight - aWeight || a.localeCompare(b)
+  );
+  if (!best || commits === 0) return null;
+
+  return {
+    owner: best[0],
+    confidence: Math.round((best[1] / commits) * 100) / 100,
+    commits,
+  };
+};
+
+/**
+ * Build attributed history per file from commits and an author → teams lookup.
+ */
+export const buildFileHistory = (
+  commits: { author: string; files: string[] }[],
+  authorTeams: (author: string) => string[],
+  files: Set<string>
+): Map<string, FileHistory> => {
+  const history = new Map<string, FileHistory>();
+  const teamsByAuthor = new Map<string, string[]>();
+
+  for (const commit of commits) {
+    let teams = teamsByAuthor.get(commit.author);
+    if (!teams) {
+      teams = authorTeams(commit.author);
+      teamsByAuthor.set(commit.author, teams);
+    }
+
+    for (const file of commit.files) {
+      if (!files.has(file)) continue;
+
+      let fileHistory = history.get(file);
+      if (!fileHistory) {
+        fileHistory = { commits: 0, teams: new Map() };
+        history.set(file, fileHistory);
+      }
+      fileHistory.commits++;
+      for (const team of teams) {
+        fileHistory.teams.set(team, (fileHistory.teams.get(team) ?? 0) + 1 / teams.length);
+      }
+    }
+  }
+
+  return history;
+};
+
+/**
+ * Propose a minimal set of rules for the unowned files.
+ * Directories are only suggested when none of their files have an owner, so
+ * appending the rules to CODEOWNERS never changes the owner of an owned file.
+ */
+export const suggestOwners = (
+  allFiles: string[],
+  unownedFiles: string[],
+  history: Map<string, FileHistory>,
+  minConfidence = 0.5
+): SuggestOwnersResult => {
+  const unowned = new Set(unownedFiles);
+
+  // Directories containing at least one owned file cannot get a rule
+  const ownedDirectories = new Set<string>([""]);
+  for (const file of allFiles) {
+    if (unowned.has(file)) continue;
+    let directory = parentDirectory(file);
+    while (directory) {
+      ownedDirectories.add(directory);
+      directory = parentDirectory(directory);
+    }
+  }
+  if (unownedFiles.length === allFiles.length) {
+    ownedDirectories.delete("");
+  }
+
+  // Unowned files per fully unowned directory (recursively)
+  const filesByDirectory = new Map<string, string[]>();
+  for (const file of unownedFiles) {
+    let directory = parentDirectory(file);
+    while (true) {
+      if (ownedDirectories.has(directory)) break;
+      const files = filesByDirectory.get(directory) ?? [];
+      files.push(file);
+      filesByDirectory.set(directory, files);
+      if (!directory) break;
+      directory = parentDirectory(directory);
+    }
+  }
+
+  const suggestions: OwnerSuggestion[] = [];
+  const unresolved: string[] = [];
+
+  const suggestFile = (file: string) => {
+    const candidate = bestCandidate([file], history);
+    if (candidate && candidate.confidence >= minConfidence) {
+      suggestions.push({ pattern: `/${escapePattern(file)}`, ...candidate, files: [file] });
+    } else {
+      unresolved.push(file);
+    }
+  };
+
+  const suggestDirectory = (directory: string) => {
+    const files = filesByDirectory.get(directory) ?? [];
+    const candidate = bestCandidate(files, history);
+    if (candidate && candidate.confidence >= minConfidence) {
+      suggestions.push({
+        pattern: directory ? `/${escapePattern(directory)}/` : "*",
+        ...candidate,
+        files,
+      });
+      return;
+    }
+
+    // Not confident enough: split into subdirectories and files
+    const subdirectories = new Set<string>();
+    for (const file of files) {
+      const parent = parentDirectory(file);
+      if (parent === directory) {
+        suggestFile(file);
+        continue;
+      }
+      const rest = directory ? parent.slice(directory.length + 1) : parent;
+      const child = directory
+        ? `${directory}/${rest.split("/")[0]}`
+        : rest.split("/")[0];
+      subdirectories.add(child);
+    }
+    Array.from(subdirectories).sort().forEach(suggestDirectory);
+  };
+
+  for (const file of unownedFiles) {
+    if (ownedDirectories.has(parentDirectory(file))) {
+      suggestFile(file);
+    }
+  }
+  const outermost = Array.from(filesByDirectory.keys()).filter(
+    (directory) => directory === "" || ownedDirectories.has(parentDirectory(directory))
+  );
+  outermost.sort().forEach(suggestDirectory);
+
+  suggestions.sort((a, b) => a.pattern.localeCompare(b.pattern));
+  return { suggestions, unresolved: unresolved.sort() };
+};
+
+/**
+ * Render suggestions as CODEOWNERS lines.
+ * GitLab files get their own section so the rules do not join the last one.
+ */
+export const suggestionsToRules = (
+  suggestions: OwnerSuggestion[],
+  dialect: CodeownersDialect = "github"
+): string[] => [
+  "",
+  "# Suggested by codeowners-git suggest-owners",
+  ...(dialect === "gitlab" ? ["[Suggested owners]"] : []),
+  ...suggestions.map(
+    (s) => `${s.pattern} ${s.owner} # confidence ${Math.round(s.confidence * 100)}%`
+  ),
+];
+
+/**
+ * Create a unified diff appending lines to a file, suitable for `git apply`.
+ * Pass null content to create the file.
+ */
+export const appendPatch = (
+  filePath: string,
+  content: string | null,
+  added: string[]
+): string => {
+  if (content === null) {
+    const lines = added.filter((line, i) => i > 0 || line !== "");
+    return [
+      "--- /dev/null",
+      `+++ b/${filePath}`,
+      `@@ -0,0 +1,${lines.length} @@`,
+      ...lines.map((line) => `+${line}`),
+      "",
+    ].join("\n");
+  }
+
+  const lines = content ? content.split("\n") : [];
+  const endsWithNewline = !content || content.endsWith("\n");
+  if (content && endsWithNewline) lines.pop();
+
+  // Up to 3 lines of context before the appended lines
+  const context = lines.slice(-3);
+  const start = context.length > 0 ? lines.length - context.length + 1 : 0;
+  // Lines appended to an empty file start at line 1
+  const newStart = context.length > 0 ? start : 1;
+  const header = [`--- a/${filePath}`, `+++ b/${filePath}`];
+
+  if (!endsWithNewline && context.length > 0) {
+    // The last line changes, as it gains a newline
+    const last = context[context.length - 1];
+    return [
+      ...header,
+      `@@ -${start},${context.length} +${start},${context.length + added.length} @@`,
+      ...context.slice(0, -1).map((line) => ` ${line}`),
+      `-${last}`,
+      "\\ No newline at end of file",
+      `+${last}`,
+      ...added.map((line) => `+${line}`),
+      "",
+    ].join("\n");
+  }
+
+  return [
+    ...header,
+    `@@ -${start},${context.length} +${newStart},${context.length + added.length} @@`,
+    ...context.map((line) => ` ${line}`),
+    ...added.map((line) => `+${line}`),
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  getAuthorTeams,
+  isTeamMember,
+  loadTeamDirectory,
+  parseTeamDirectory,
+  resolveReviewers,
+  getTeam,
+  type TeamDirectory,
+} from "./teams";
+
+describe("parseTeamDirectory", () => {
+  test("should parse team entries", () => {
+    const teams = parseTeamDirectory({
+      "@org/ce-orca": {
+        displayName: "CE Orca",
+        members: ["@alice", "@bob"],
+        slack: "#ce-orca",
+        manager: "@carol",
+      },
+    });
+
+    expect(teams).toEqual([
+      {
+        name: "@org/ce-orca",
+        displayName: "CE Orca",
+        members: ["@alice", "@bob"],
+        slack: "#ce-orca",
+        manager: "@carol",
+        reviewer: true,
+      },
+    ]);
+  });
+
+  test("should only treat @org/team owners as reviewers by default", () => {
+    const [alias, team, optedOut] = parseTeamDirectory({
+      "@ce-orca": { members: ["@alice"] },
+      "@org/platform": {},
+      "@org/secret": { reviewer: false },
+    });
+    expect(alias.reviewer).toBe(false);
+    expect(team.reviewer).toBe(true);
+    expect(optedOut.reviewer).toBe(false);
+  });
+
+  test("should reject invalid entries", () => {
+    expect(() => parseTeamDirectory(["@org/team"])).toThrow("must map team names");
+    expect(() => parseTeamDirectory({ "@org/a": "oops" })).toThrow('Team "@org/a" must be an object');
+    expect(() => parseTeamDirectory({ "@org/a": { members: "@alice" } })).toThrow("list of strings");
+    expect(() => parseTeamDirectory({ "@org/a": { slack: 42 } })).toThrow('"slack"');
+  });
+});
+
+describe("loadTeamDirectory", () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(path.join(tmpdir(), "cg-teams-"));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("should return an empty directory when no file exists", () => {
+    expect(loadTeamDirectory(root)).toEqual({ path: null, teams: [] });
+  });
+
+  test("should load JSON and prefer YAML in .github", () => {
+    writeFileSync(
+      path.join(root, ".codeowners-teams.json"),
+      JSON.stringify({ "@org/json": { members: ["@json"] } })
+    );
+    expect(loadTeamDirectory(root).teams.map((t) => t.name)).toEqual(["@org/json"]);
+
+    mkdirSync(path.join(root, ".github"));
+    writeFileSync(
+      path.join(root, ".github/codeowners-teams.yml"),
+      '"@org/yaml":\n  displayName: YAML team\n  members:\n    - "@yaml"\n'
+    );
+    const directory = loadTeamDirectory(root);
+    expect(directory.path).toBe(path.join(root, ".github/codeowners-teams.yml"));
+    expect(directory.teams[0]).toMatchObject({ name: "@org/yaml", displayName: "YAML team" });
+  });
+
+  test("should report the file name of invalid directories", () => {
+    writeFileSync(path.join(root, ".github/codeowners-teams.yml"), '"@org/a":\n  members: 1\n');
+    expect(() => loadTeamDirectory(root)).toThrow(
+      "Invalid team directory .github/codeowners-teams.yml"
+    );
+  });
+});
+
+describe("resolveReviewers", () => {
+  const directory: TeamDirectory = {
+    path: ".codeowners-teams.yml",
+    teams: parseTeamDirectory({
+      "@org/platform": { members: ["@dave"] },
+      "@ce-orca": { members: ["@alice", "@bob", "carol@example.com"] },
+      "@ce-rme": { members: ["@bob", "@erin"] },
+    }),
+  };
+
+  test("should look up teams case-insensitively", () => {
+    expect(getTeam("@CE-Orca", directory)?.name).toBe("@ce-orca");
+    expect(getTeam("@unknown", directory)).toBeNull();
+  });
+
+  test("should expand teams that are not valid GitHub reviewers", () => {
+    expect(resolveReviewers(["@ce-orca", "@ce-rme"], directory)).toEqual([
+      "alice",
+      "bob",
+      "erin",
+    ]);
+  });
+
+  test("should leave GitHub teams and unknown owners to CODEOWNERS", () => {
+    expect(resolveReviewers(["@org/platform", "@someone"], directory)).toEqual([]);
+  });
+});
+
+describe("getAuthorTeams", () => {
+  const directory: TeamDirectory = {
+    path: ".codeowners-teams.yml",
+    teams: parseTeamDirectory({
+      "@org/billing": { members: ["@alice", "Bob@Example.com"] },
+      "@org/web": { members: ["@alice"] },
+    }),
+  };
+
+  test("should match members by email or GitHub noreply address", () => {
+    expect(isTeamMember("bob@example.com", "BOB@example.com")).toBe(true);
+    expect(isTeamMember("@alice", "alice@users.noreply.github.com")).toBe(true);
+    expect(isTeamMember("@alice", "12345+Alice@users.noreply.github.com")).toBe(true);
+    expect(isTeamMember("@alice", "alice@example.com")).toBe(false);
+  });
+
+  test("should return every team of an author", () => {
+    expect(
+      getAuthorTeams("1+alice@users.noreply.github.com", directory).map((t) => t.name)
+    ).toEqual(["@org/billing", "@org/web"]);
+    expect(getAuthorTeams("bob@example.com", directory).map((t) => t.name)).toEqual([
+      "@org/billing",
+    ]);
+    expect(getAuthorTeams("zed@example.com", directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { parse } from "yaml";
+import { getCodeowners } from "./codeowners";
+
+/**
+ * Team directory: a file checked into the repository that maps CODEOWNERS
+ * teams to the people on them.
+ *
+ * ```yaml
+ * "@org/ce-orca":
+ *   displayName: CE Orca
+ *   members: ["@alice", "@bob"]
+ *   slack: "#ce-orca"
+ *   manager: "@carol"
+ *   reviewer: false # team cannot be requested as a GitHub reviewer
+ * ```
+ */
+
+export type Team = {
+  name: string; // Owner as written in CODEOWNERS (e.g. @org/ce-orca)
+  displayName?: string;
+  members: string[];
+  slack?: string;
+  manager?: string;
+  reviewer: boolean; // Whether GitHub can request a review from the team itself
+};
+
+export type TeamDirectory = {
+  path: string | null;
+  teams: Team[];
+};
+
+// Locations searched at the project root, in order of precedence
+export const TEAM_DIRECTORY_LOCATIONS = [
+  ".github/codeowners-teams.yml",
+  ".github/codeowners-teams.yaml",
+  ".github/codeowners-teams.json",
+  ".codeowners-teams.yml",
+  ".codeowners-teams.yaml",
+  ".codeowners-teams.json",
+];
+
+const GITHUB_TEAM = /^@[^/\s]+\/[^/\s]+$/;
+const EMAIL = /^[^@\s]+@[^@\s]+$/;
+// GitHub noreply addresses: "alice@users.noreply.github.com" or "123+alice@..."
+const GITHUB_NOREPLY = /^(?:\d+\+)?([^@+]+)@users\.noreply\.github\.com$/i;
+
+let teamDirectory: TeamDirectory | null = null;
+
+const optionalString = (
+  entry: Record<string, unknown>,
+  key: string,
+  team: string
+): string | undefined => {
+  const value = entry[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new Error(`"${key}" of team "${team}" must be a string`);
+  }
+  return value;
+};
+
+/**
+ * Validate the parsed contents of a team directory file.
+ */
+export const parseTeamDirectory = (data: unknown): Team[] => {
+  if (data === null || data === undefined) return [];
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Team directory must map team names to team entries");
+  }
+
+  return Object.entries(data as Record<string, unknown>).map(([name, value]) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`Team "${name}" must be an object`);
+    }
+    const entry = value as Record<string, unknown>;
+
+    const members = entry.members ?? [];
+    if (!Array.isArray(members) || members.some((m) => typeof m !== "string")) {
+      throw new Error(`"members" of team "${name}" must be a list of strings`);
+    }
+    if (entry.reviewer !== undefined && typeof entry.reviewer !== "boolean") {
+      throw new Error(`"reviewer" of team "${name}" must be true or false`);
+    }
+
+    return {
+      name,
+      displayName: optionalString(entry, "displayName", name),
+      members: members as string[],
+      slack: optionalString(entry, "slack", name),
+      manager: optionalString(entry, "manager", name),
+      // Only @org/team owners can be requested as GitHub reviewers
+      reviewer: (entry.reviewer as boolean | undefined) ?? GITHUB_TEAM.test(name),
+    };
+  });
+};
+
+/**
+ * Load the team directory from the project root.
+ * Returns an empty directory when no file exists.
+ */
+export const loadTeamDirectory = (root: string): TeamDirectory => {
+  for (const location of TEAM_DIRECTORY_LOCATIONS) {
+    const filePath = path.join(root, location);
+    if (!existsSync(filePath)) continue;
+
+    try {
+      // JSON is valid YAML, so one parser handles both formats
+      const teams = parseTeamDirectory(parse(readFileSync(filePath, "utf-8")));
+      return { path: filePath, teams };
+    } catch (error) {
+      throw new Error(
+        `Invalid team directory ${location}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return { path: null, teams: [] };
+};
+
+export const getTeamDirectory = (): TeamDirectory => {
+  if (!teamDirectory) {
+    teamDirectory = loadTeamDirectory(getCodeowners().root);
+  }
+  return teamDirectory;
+};
+
+/**
+ * Look up an owner in the team directory (case-insensitive, as on GitHub).
+ */
+export const getTeam = (
+  owner: string,
+  directory: TeamDirectory = getTeamDirectory()
+): Team | null => {
+  const key = owner.toLowerCase();
+  return directory.teams.find((team) => team.name.toLowerCase() === key) ?? null;
+};
+
+/**
+ * Label an owner with its display name from the team directory.
+ * @example teamLabel("@org/ce-orca") => "CE Orca (@org/ce-orca)"
+ */
+export const teamLabel = (owner: string): string => {
+  const team = getTeam(owner);
+  return team?.displayName ? `${team.displayName} (${owner})` : owner;
+};
+
+/**
+ * Describe an owner for display: display name, owner and members.
+ * @example describeOwner("@org/ce-orca") => "CE Orca (@org/ce-orca): @alice, @bob"
+ */
+export const describeOwner = (owner: string): string => {
+  const team = getTeam(owner);
+  const label = teamLabel(owner);
+  return team && team.members.length > 0
+    ? `${label}: ${team.members.join(", ")}`
+    : label;
+};
+
+/**
+ * Check whether a commit author email belongs to a team member. Members listed
+ * by email match that email, members listed by GitHub login (`@alice`) match
+ * their GitHub noreply address.
+ */
+export const isTeamMember = (member: string, email: string): boolean => {
+  const address = email.toLowerCase();
+  if (EMAIL.test(member)) {
+    return member.toLowerCase() === address;
+  }
+  const login = GITHUB_NOREPLY.exec(address)?.[1];
+  return login !== undefined && member.replace(/^@/, "").toLowerCase() === login;
+};
+
+/**
+ * Find the teams a commit author belongs to, by email.
+ */
+export const getAuthorTeams = (
+  email: string,
+  directory: TeamDirectory = getTeamDirectory()
+): Team[] =>
+  directory.teams.filter((team) =>
+    team.members.some((member) => isTeamMember(member, email))
+  );
+
+/**
+ * Resolve the GitHub reviewers to request for a set of owners.
+ *
+ * Teams that GitHub can review are left to CODEOWNERS auto-assignment, while
+ * teams that are not valid GitHub reviewers are expanded into their members.
+ * Returned logins have no leading `@`, as expected by `gh pr create --reviewer`.
+ */
+export const resolveReviewers = (
+  owners: string[],
+  directory: TeamDirectory = getTeamDirectory()
+): string[] => {
+  const reviewers = new Set<string>();
+
+  for (const owner of owners) {
+    const team = getTeam(owner, directory);
+    if (!team || team.reviewer) continue;
+
+    for (const member of team.members) {
+      // Email addresses cannot be requested as reviewers
+      if (EMAIL.test(member)) continue;
+      reviewers.add(member.replace(/^@/, ""));
+    }
+  }
+
+  return Array.from(reviewers);
+};
@@ -118,6 +118,20 @@ export class E2ETestHelper {
     }
   }
 
+  /**
+   * Put a file in the MM state: commit `base`, stage `staged`, then change
+   * the working directory copy to `unstaged` without staging it
+   */
+  async createPartiallyStagedFile(
+    path: string,
+    { base, staged, unstaged }: { base: string; staged: string; unstaged: string }
+  ): Promise<void> {
+    await this.stageFiles([{ path, content: base, operation: "add" }]);
+    await this.runGit(["commit", "-m", `Add ${path}`]);
+    await this.stageFiles([{ path, content: staged, operation: "modify" }]);
+    await this.stageFiles([{ path, content: unstaged, operation: "modify" }], false);
+  }
+
   /**
    * Create a clean working state
    */
@@ -1,4 +1,6 @@
-import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { mkdir, readlink, symlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
 import { E2ETestSetup } from "./setup";
 import { E2ETestHelper, type GitFileChange } from "./helpers";
 
@@ -504,6 +506,200 @@ describe("E2E: Integration Workflows", () => {
     });
   });
 
+  describe("Binary-safe extraction", () => {
+    // Every byte value, plus a PNG signature with CRLF and NUL bytes
+    const png = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]),
+      Buffer.from(Array.from({ length: 256 }, (_, i) => i)),
+    ]);
+    const files = ["frontend/logo.png", "frontend/logo-link.png", "backend/logo.png"];
+
+    const createSourceBranch = async () => {
+      const repo = setup.getTestRepoPath();
+      await helper.switchToBranch("feature/binary-source", true);
+      await mkdir(join(repo, "frontend"), { recursive: true });
+      await mkdir(join(repo, "backend"), { recursive: true });
+      await writeFile(join(repo, "frontend/logo.png"), png);
+      await writeFile(join(repo, "backend/logo.png"), png);
+      await symlink("logo.png", join(repo, "frontend/logo-link.png"));
+      await helper.runGit(["add", ...files]);
+      await helper.runGit(["commit", "-m", "Add binary files"]);
+      await helper.switchToBranch("main");
+    };
+
+    const treeEntry = async (ref: string, file: string) =>
+      (await helper.runGit(["ls-tree", ref, "--", file])).stdout;
+
+    test("extract reproduces binary files and symlinks byte for byte", async () => {
+      await createSourceBranch();
+
+      const result = await helper.runCLI(["extract", "-s", "feature/binary-source"]);
+      expect(result.success).toBe(true);
+
+      const repo = setup.getTestRepoPath();
+      expect(await readlink(join(repo, "frontend/logo-link.png"))).toBe("logo.png");
+
+      // Staging the extracted files gives the exact blobs of the source
+      await helper.runGit(["add", ...files]);
+      for (const file of files) {
+        const staged = await helper.runGit(["rev-parse", `:${file}`]);
+        const source = await helper.runGit(["rev-parse", `feature/binary-source:${file}`]);
+        expect(staged.stdout).toBe(source.stdout);
+      }
+    });
+
+    test("multi-branch --source commits binary files and symlinks unchanged", async () => {
+      await createSourceBranch();
+
+      const result = await helper.runCLI([
+        "multi-branch",
+        "-s", "feature/binary-source",
+        "-b", "feature/binary",
+        "-m", "Split binary files",
+      ]);
+      expect(result.success).toBe(true);
+
+      const branches = (await helper.getBranches()).filter((b) => b.startsWith("feature/binary/"));
+      expect(branches.length).toBeGreaterThanOrEqual(1);
+
+      // Each file lands in one branch with the mode and blob it has in the source
+      for (const file of files) {
+        const source = await treeEntry("feature/binary-source", file);
+        const entries = await Promise.all(branches.map((branch) => treeEntry(branch, file)));
+        expect(entries.filter((entry) => entry === source)).toHaveLength(1);
+      }
+    });
+  });
+
+  describe("Partially staged files", () => {
+    const lines = Array.from({ length: 10 }, (_, i) => `export const line${i} = ${i};`);
+    const withLine = (source: string[], index: number, line: string) =>
+      source.map((current, i) => (i === index ? line : current));
+
+    const base = lines.join("\n");
+    const staged = withLine(lines, 1, "export const line1 = 'staged';").join("\n");
+    const unstaged = withLine(staged.split("\n"), 8, "export const line8 = 'unstaged';").join("\n");
+
+    let startHead: string;
+
+    beforeEach(async () => {
+      startHead = (await helper.runGit(["rev-parse", "HEAD"])).stdout;
+    });
+
+    afterEach(async () => {
+      // Drop the commits adding the base versions
+      await helper.runGit(["reset", "--hard", startHead]);
+    });
+
+    // Put files in the MM state and return the blob of each staged version
+    const createPartiallyStagedFiles = async (files: string[]) => {
+      const blobs = new Map<string, string>();
+      for (const file of files) {
+        await helper.createPartiallyStagedFile(file, { base, staged, unstaged });
+        const status = await helper.runGit(["status", "--porcelain", file]);
+        expect(status.stdout).toBe(`MM ${file}`);
+        blobs.set(file, (await helper.runGit(["rev-parse", `:${file}`])).stdout);
+      }
+      return blobs;
+    };
+
+    // The unstaged hunk is still in the working directory, and nothing else
+    const expectUnstagedHunkKept = async (file: string) => {
+      const diff = await helper.runGit(["diff", file]);
+      expect(diff.stdout).toContain("+export const line8 = 'unstaged';");
+      expect(diff.stdout).not.toContain("line1");
+    };
+
+    test("branch commits the staged version and keeps the unstaged hunk", async () => {
+      const file = "frontend/Partial.ts";
+      const blobs = await createPartiallyStagedFiles([file]);
+
+      const result = await helper.runCLI([
+        "branch",
+        "-i", "@frontend-team",
+        "-b", "feature/partial",
+        "-m", "Commit staged changes",
+      ]);
+      expect(result.success).toBe(true);
+
+      const committed = await helper.runGit(["rev-parse", `feature/partial:${file}`]);
+      expect(committed.stdout).toBe(blobs.get(file)!);
+
+      expect(await helper.getCurrentBranch()).toBe("main");
+      await expectUnstagedHunkKept(file);
+    });
+
+    test("multi-branch commits the staged version of each owner's files", async () => {
+      const files = ["frontend/Partial.ts", "backend/partial.ts"];
+      const blobs = await createPartiallyStagedFiles(files);
+
+      const result = await helper.runCLI([
+        "multi-branch",
+        "-b", "feature/partial",
+        "-m", "Commit staged changes for",
+      ]);
+      expect(result.success).toBe(true);
+
+      const branches = (await helper.getBranches()).filter((b) => b.startsWith("feature/partial"));
+      for (const file of files) {
+        // Exactly one branch has the file, with the blob that was staged
+        const entries = await Promise.all(
+          branches.map(async (branch) => (await helper.runGit(["rev-parse", `${branch}:${file}`])).stdout)
+        );
+        expect(entries.filter((entry) => entry === blobs.get(file))).toHaveLength(1);
+        await expectUnstagedHunkKept(file);
+      }
+      expect(await helper.getStagedFiles()).toEqual([]);
+    });
+  });
+
+  describe("Worktree builds", () => {
+    test("branch --worktree leaves the checkout, index and HEAD untouched", async () => {
+      const changes: GitFileChange[] = [
+        {
+          path: "frontend/Worktree.tsx",
+          content: "export const Worktree = () => <div>Worktree</div>;",
+          operation: "add",
+        },
+        {
+          path: "backend/api/worktree.ts",
+          content: "export const worktree = () => [];",
+          operation: "add",
+        },
+      ];
+
+      await helper.stageFiles(changes);
+      const headBefore = (await helper.runGit(["rev-parse", "HEAD"])).stdout;
+      const indexBefore = (await helper.runGit(["write-tree"])).stdout;
+      const statusBefore = (await helper.runGit(["status", "--porcelain"])).stdout;
+
+      const result = await helper.runCLI([
+        "branch",
+        "-i", "@frontend-team",
+        "-b", "feature/worktree",
+        "-m", "Add worktree component",
+        "--worktree",
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(await helper.branchExists("feature/worktree")).toBe(true);
+
+      // The checkout, the index and HEAD are left exactly as they were
+      expect(await helper.getCurrentBranch()).toBe("main");
+      expect((await helper.runGit(["rev-parse", "HEAD"])).stdout).toBe(headBefore);
+      expect((await helper.runGit(["write-tree"])).stdout).toBe(indexBefore);
+      expect((await helper.runGit(["status", "--porcelain"])).stdout).toBe(statusBefore);
+
+      const show = await helper.runGit(["show", "--name-only", "feature/worktree"]);
+      expect(show.stdout).toContain("frontend/Worktree.tsx");
+      expect(show.stdout).not.toContain("backend/api/worktree.ts");
+
+      // The temporary worktree is removed
+      const worktrees = await helper.runGit(["worktree", "list"]);
+      expect(worktrees.stdout.trim().split("\n")).toHaveLength(1);
+    });
+  });
+
   describe("Performance and scalability", () => {
     test("handles large number of files efficiently", async () => {
       // Create many files across different owners